@@ -7,11 +7,26 @@ import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import LandingScreen from "./src/screens/LandingScreen";
 import GallerySwipeScreen from "./src/screens/GallerySwipeScreen";
 import TrashScreen from "./src/screens/TrashScreen";
+import AlbumPickerScreen from "./src/screens/AlbumPickerScreen";
+import KeptScreen from "./src/screens/KeptScreen";
+import DuplicatesScreen from "./src/screens/DuplicatesScreen";
+import HistoryScreen from "./src/screens/HistoryScreen";
+import StatsScreen from "./src/screens/StatsScreen";
+import BackupScreen from "./src/screens/BackupScreen";
+import SettingsScreen from "./src/screens/SettingsScreen";
+import type { SessionScope } from "./src/session/sessionScope";
 
 export type RootStackParamList = {
   Landing: undefined;
-  GallerySwipe: undefined;
+  Albums: undefined;
+  GallerySwipe: SessionScope | undefined;
   Trash: undefined;
+  Kept: undefined;
+  Duplicates: undefined;
+  History: undefined;
+  Stats: undefined;
+  Backup: undefined;
+  Settings: undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -65,8 +80,15 @@ export default function App() {
           }}
         >
           <Stack.Screen name="Landing" component={LandingScreen} options={{ title: "Home" }} />
+          <Stack.Screen name="Albums" component={AlbumPickerScreen} options={{ title: "New session" }} />
           <Stack.Screen name="GallerySwipe" component={GallerySwipeScreen} options={{ title: "Gallery" }} />
           <Stack.Screen name="Trash" component={TrashScreen} options={{ title: "Trash" }} />
+          <Stack.Screen name="Kept" component={KeptScreen} options={{ title: "Kept" }} />
+          <Stack.Screen name="Duplicates" component={DuplicatesScreen} options={{ title: "Duplicates" }} />
+          <Stack.Screen name="History" component={HistoryScreen} options={{ title: "History" }} />
+          <Stack.Screen name="Stats" component={StatsScreen} options={{ title: "Stats" }} />
+          <Stack.Screen name="Backup" component={BackupScreen} options={{ title: "Backup & restore" }} />
+          <Stack.Screen name="Settings" component={SettingsScreen} options={{ title: "Settings" }} />
         </Stack.Navigator>
       </NavigationContainer>
     </PaperProvider>
@@ -0,0 +1,109 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  appendJournal,
+  appendJournalBatch,
+  appendJournalGroup,
+  importJournal,
+  readJournal,
+  recentUndoable,
+} from '../src/actionJournal';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+test('appends across segments and reads back in order', async () => {
+  await appendJournalBatch(
+    Array.from({ length: 1200 }, (_, i) => ({
+      kind: 'skip' as const,
+      asset: { uri: `photo://${i}` },
+      pos: i,
+      scope: '',
+    })),
+  );
+  await appendJournal({ kind: 'trash', asset: { uri: 'photo://x' } });
+
+  const all = await readJournal();
+  expect(all).toHaveLength(1201);
+  expect(all[0].id).toBe('0');
+  expect(all[1200]).toMatchObject({ id: '1200', kind: 'trash', pos: null });
+  expect(await AsyncStorage.getItem('gallery_journal_v2:2')).not.toBeNull();
+});
+
+test('recentUndoable skips undone entries and other scopes', async () => {
+  const a = await appendJournal({ kind: 'trash', asset: { uri: 'a' }, pos: 0, scope: '' });
+  await appendJournal({ kind: 'skip', asset: { uri: 'b' }, pos: 1, scope: '' });
+  await appendJournal({ kind: 'skip', asset: { uri: 'c' }, pos: 0, scope: 'album:X' });
+  const d = await appendJournal({ kind: 'keep', asset: { uri: 'd' }, pos: 2, scope: '' });
+  await appendJournal({ kind: 'undo', asset: d.asset, target: d.id, scope: '' });
+  await appendJournal({ kind: 'recover', asset: a.asset });
+
+  const recent = await recentUndoable('', 10);
+  expect(recent.map(e => e.asset.uri)).toEqual(['b', 'a']);
+  expect(await recentUndoable('', 1)).toHaveLength(1);
+});
+
+test('a group counts as one undo step and is never split', async () => {
+  await appendJournal({ kind: 'skip', asset: { uri: 'a' }, pos: 0, scope: '' });
+  const group = await appendJournalGroup(
+    ['b', 'c', 'd'].map((uri, i) => ({ kind: 'skip' as const, asset: { uri }, pos: i + 1, scope: '' })),
+  );
+  expect(group.map(e => e.group)).toEqual([group[0].id, group[0].id, group[0].id]);
+
+  expect((await recentUndoable('', 1)).map(e => e.asset.uri)).toEqual(['d', 'c', 'b']);
+  expect((await recentUndoable('', 2)).map(e => e.asset.uri)).toEqual(['d', 'c', 'b', 'a']);
+});
+
+test('importJournal renumbers entries, follows undo targets and skips known ones', async () => {
+  await appendJournal({ kind: 'skip', asset: { uri: 'local' }, at: 1 });
+  const backup = [
+    { id: '0', at: 10, kind: 'trash' as const, asset: { uri: 'a' }, pos: 0, scope: '', target: null, group: null },
+    { id: '1', at: 11, kind: 'undo' as const, asset: { uri: 'a' }, pos: null, scope: '', target: '0', group: null },
+  ];
+
+  expect(await importJournal(backup)).toBe(2);
+  expect(await importJournal(backup)).toBe(0);
+
+  const all = await readJournal();
+  expect(all.map(e => [e.id, e.kind, e.target])).toEqual([
+    ['0', 'skip', null],
+    ['1', 'trash', null],
+    ['2', 'undo', '1'],
+  ]);
+});
+
+test('a damaged meta is recovered from the segments, so appends do not overwrite them', async () => {
+  await appendJournalBatch(
+    Array.from({ length: 620 }, (_, i) => ({ kind: 'skip' as const, asset: { uri: `photo://${i}` } })),
+  );
+  await AsyncStorage.setItem('gallery_journal_v2:meta', '{"v":1,"sum":"0","data":{"count":0}}');
+
+  const next = await appendJournal({ kind: 'trash', asset: { uri: 'photo://new' } });
+
+  expect(next.id).toBe('620');
+  const all = await readJournal();
+  expect(all).toHaveLength(621);
+  expect(all[0].asset.uri).toBe('photo://0');
+  expect(all[620].asset.uri).toBe('photo://new');
+  expect(await AsyncStorage.getItem('gallery_journal_v2:meta:corrupt')).toContain('"count":0');
+});
+
+test('a damaged segment is set aside and the rest of the journal still reads', async () => {
+  await appendJournalBatch(
+    Array.from({ length: 1100 }, (_, i) => ({ kind: 'skip' as const, asset: { uri: `photo://${i}` } })),
+  );
+  await AsyncStorage.setItem('gallery_journal_v2:1', '[{"id":"500"');
+
+  const all = await readJournal();
+  expect(all).toHaveLength(600);
+  expect(all[500].id).toBe('1000');
+  expect(await AsyncStorage.getItem('gallery_journal_v2:1:corrupt')).toBe('[{"id":"500"');
+});
@@ -0,0 +1,97 @@
+/**
+ * @format
+ */
+
+import type { MediaAsset } from '../src/mediaAsset';
+import {
+  BACKUP_FORMAT,
+  buildLibraryIndex,
+  parseBackup,
+  remap,
+  resolveAsset,
+} from '../src/backup/backupFormat';
+import { anchorOf } from '../src/session/sessionEngine';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+function backup(extra: object = {}) {
+  return JSON.stringify({
+    format: BACKUP_FORMAT,
+    version: 1,
+    exportedAt: 123,
+    progress: [{ scope: '', pos: 40 }, { scope: 'bad', pos: -1 }],
+    trash: [{ uri: 'old://1', filename: 'IMG_1.JPG', trashedAt: 5 }, {}],
+    keep: [],
+    journal: [],
+    settings: { retentionDays: 7 },
+    ...extra,
+  });
+}
+
+test('parseBackup validates and drops malformed items', () => {
+  const doc = parseBackup(backup());
+  expect(doc.progress).toEqual([{ scope: '', pos: 40, anchor: null }]);
+  expect(doc.trash.map(e => e.uri)).toEqual(['old://1']);
+  expect(doc.settings.retentionDays).toBe(7);
+  expect(doc.settings.app).toBeNull();
+
+  const withApp = parseBackup(backup({ settings: { retentionDays: 7, app: { trashDirection: 'left', undoDepth: 3 } } }));
+  expect(withApp.settings.app).toMatchObject({ trashDirection: 'left', undoDepth: 50 });
+});
+
+test('parseBackup rejects foreign, newer and incomplete documents', () => {
+  expect(() => parseBackup('nope')).toThrow('not valid JSON');
+  expect(() => parseBackup('{"format":"other"}')).toThrow('not a Gallery Swipe backup');
+  expect(() => parseBackup(backup({ version: 99 }))).toThrow('newer version');
+  expect(() => parseBackup(backup({ trash: undefined }))).toThrow('"trash"');
+});
+
+test('remap matches by URI, then by filename and capture second', () => {
+  const lib = buildLibraryIndex([
+    { uri: 'new://a', filename: 'IMG_1.JPG', capturedAt: 1_000_400 },
+    { uri: 'same://b' },
+  ]);
+
+  const backedUp: MediaAsset[] = [
+    { uri: 'old://a', filename: 'img_1.jpg', capturedAt: 1_000_000 },
+    { uri: 'same://b' },
+    { uri: 'old://c', filename: 'IMG_2.JPG', capturedAt: 1_000_000 },
+  ];
+  const res = remap(
+    backedUp,
+    lib,
+    a => a,
+    (_, a) => a,
+  );
+
+  expect(res.matched.map(a => a.uri)).toEqual(['new://a', 'same://b']);
+  expect(res.unmatched.map(a => a.uri)).toEqual(['old://c']);
+});
+
+test('a session anchor is carried over and found again by filename and capture time', () => {
+  const anchor = { uri: 'old://7', id: 'OLD-7', filename: 'IMG_7.HEIC', capturedAt: 2_000_300 };
+  const doc = parseBackup(backup({ progress: [{ scope: 'album:Trips', pos: 12, anchor }] }));
+  expect(doc.progress[0].anchor).toMatchObject(anchor);
+
+  const lib = buildLibraryIndex([{ uri: 'new://7', id: 'NEW-7', filename: 'IMG_7.HEIC', capturedAt: 2_000_000 }]);
+  const found = resolveAsset(doc.progress[0].anchor!, lib);
+  expect(anchorOf(found ?? undefined)).toEqual({ id: 'NEW-7', capturedAt: 2_000_300 });
+});
+
+test('a matched asset keeps what the backup knew about it', () => {
+  const lib = buildLibraryIndex([
+    { uri: 'new://a', id: 'NEW-A', filename: 'IMG_1.JPG', capturedAt: 1_000_000, fileSize: null, location: null },
+  ]);
+  const backedUp: MediaAsset = {
+    uri: 'old://a',
+    id: 'OLD-A',
+    filename: 'IMG_1.JPG',
+    capturedAt: 1_000_000,
+    fileSize: 2_500_000,
+    location: { latitude: 1, longitude: 2 },
+  };
+
+  expect(resolveAsset(backedUp, lib)).toEqual({ ...backedUp, uri: 'new://a', id: 'NEW-A' });
+});
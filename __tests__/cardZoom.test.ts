@@ -0,0 +1,62 @@
+/**
+ * @format
+ */
+
+import {
+  clampZoom,
+  DOUBLE_TAP_SCALE,
+  isZoomed,
+  MAX_SCALE,
+  NO_ZOOM,
+  pinchTo,
+  settleZoom,
+  toggleZoomAt,
+} from '../src/cardZoom';
+
+const W = 400;
+const H = 800;
+
+test('double tap zooms in on the tapped point and back out', () => {
+  const z = toggleZoomAt(NO_ZOOM, { x: 150, y: 300 }, W, H);
+  expect(z.scale).toBe(DOUBLE_TAP_SCALE);
+  // the tapped point stays under the finger: centre + scale * (p - centre) + offset = p
+  expect(W / 2 + z.scale * (150 - W / 2) + z.x).toBeCloseTo(150);
+  expect(H / 2 + z.scale * (300 - H / 2) + z.y).toBeCloseTo(300);
+
+  expect(toggleZoomAt(z, { x: 0, y: 0 }, W, H)).toEqual(NO_ZOOM);
+});
+
+test('pinching is limited to 1x..MAX_SCALE and panning to the photo edges', () => {
+  const centre = { x: W / 2, y: H / 2 };
+  expect(pinchTo(NO_ZOOM, 100, 50, centre, W, H)).toEqual(NO_ZOOM);
+  expect(pinchTo(NO_ZOOM, 100, 1000, centre, W, H).scale).toBe(MAX_SCALE);
+  expect(clampZoom({ scale: 2, x: 999, y: -999 }, W, H)).toEqual({ scale: 2, x: W / 2, y: -H / 2 });
+});
+
+test('a pinch that ends barely zoomed snaps back so swipes work again', () => {
+  expect(isZoomed(settleZoom({ scale: 1.03, x: 5, y: 5 }, W, H))).toBe(false);
+  expect(settleZoom({ scale: 1.5, x: 500, y: 0 }, W, H)).toEqual({ scale: 1.5, x: 100, y: 0 });
+});
+
+test('pinching keeps the photo under the fingers in place', () => {
+  // photo point q is drawn at centre + scale * (q - centre) + offset
+  const screenOf = (z: { scale: number; x: number; y: number }, q: { x: number; y: number }) => ({
+    x: W / 2 + z.scale * (q.x - W / 2) + z.x,
+    y: H / 2 + z.scale * (q.y - H / 2) + z.y,
+  });
+  const focus = { x: 120, y: 500 };
+
+  const first = pinchTo(NO_ZOOM, 100, 200, focus, W, H);
+  expect(first.scale).toBe(2);
+  expect(screenOf(first, focus).x).toBeCloseTo(focus.x);
+  expect(screenOf(first, focus).y).toBeCloseTo(focus.y);
+
+  // a second pinch from a zoomed, panned state holds its own focus too
+  const start = { scale: 2, x: 40, y: -60 };
+  const f2 = { x: 250, y: 300 };
+  const q = { x: W / 2 + (f2.x - W / 2 - start.x) / 2, y: H / 2 + (f2.y - H / 2 - start.y) / 2 };
+  const second = pinchTo(start, 100, 150, f2, W, H);
+  expect(second.scale).toBe(3);
+  expect(screenOf(second, q).x).toBeCloseTo(f2.x);
+  expect(screenOf(second, q).y).toBeCloseTo(f2.y);
+});
@@ -0,0 +1,197 @@
+/**
+ * @format
+ */
+
+import {
+  groupDuplicates,
+  suggestKeeper,
+} from '../src/duplicates/duplicateGroups';
+import { dHash, hammingDistance } from '../src/duplicates/perceptualHash';
+import { trashDuplicates } from '../src/duplicates/resolveDuplicates';
+import { scanForDuplicates } from '../src/duplicates/duplicateScan';
+import { loadHashCache, saveHashCache } from '../src/duplicates/hashCache';
+import { liveDecisions, readJournal } from '../src/actionJournal';
+import { getTrashSet } from '../src/trashStore';
+import { Platform } from 'react-native';
+import { unlink } from '@dr.pogodin/react-native-fs';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('@react-native-camera-roll/camera-roll', () => ({
+  CameraRoll: {
+    getPhotoThumbnail: jest.fn(async () => {
+      throw new Error('no thumbnail');
+    }),
+    // two pages of two photos; 'p1' and 'p3' are byte-identical
+    getPhotos: jest.fn(async ({ after }: { after?: string }) => {
+      const page = after ? ['p2', 'p3'] : ['p0', 'p1'];
+      return {
+        edges: page.map(uri => ({
+          node: {
+            id: uri,
+            type: 'image',
+            timestamp: 1_700_000_000,
+            image: { uri, width: 10, height: 10, fileSize: uri === 'p3' ? 2 : Number(uri[1]) + 1 },
+          },
+        })),
+        page_info: { has_next_page: !after, end_cursor: after ? undefined : 'c1' },
+      };
+    }),
+  },
+}));
+
+function mockBase64(bytes: Uint8Array): string {
+  const abc = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    out += abc[n >> 18] + abc[(n >> 12) & 63];
+    out += i + 1 < bytes.length ? abc[(n >> 6) & 63] : '=';
+    out += i + 2 < bytes.length ? abc[n & 63] : '=';
+  }
+  return out;
+}
+
+// The resizer "writes" a file whose name is the photo's; reading it back yields a gradient
+// JPEG, flipped for 'p2' and 'p3' so the library holds two pairs of look-alikes.
+jest.mock('@bam.tech/react-native-image-resizer', () => ({
+  createResizedImage: jest.fn(async (uri: string) => ({ path: `/cache/${uri}.jpg` })),
+}));
+jest.mock('@dr.pogodin/react-native-fs', () => ({
+  CachesDirectoryPath: '/cache',
+  readFile: jest.fn(async (path: string) => {
+    const w = 32;
+    const rgba = new Uint8Array(w * w * 4);
+    const flip = /p[23]/.test(path);
+    for (let i = 0; i < w * w; i++) {
+      const v = Math.round(((i % w) / (w - 1)) * 255);
+      rgba.fill(flip ? 255 - v : v, i * 4, i * 4 + 3);
+      rgba[i * 4 + 3] = 255;
+    }
+    const { encode } = require('jpeg-js');
+    const jpeg: Uint8Array = encode({ data: rgba, width: w, height: w }, 90).data;
+    return mockBase64(jpeg);
+  }),
+  unlink: jest.fn(async () => {}),
+}));
+
+function gradient(w: number, h: number, flip = false): Uint8Array {
+  const out = new Uint8Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const v = Math.round((x / (w - 1)) * 255);
+      out[y * w + x] = flip ? 255 - v : v;
+    }
+  }
+  return out;
+}
+
+test('dHash is stable across sizes and separates different images', () => {
+  const a = dHash(gradient(32, 32), 32, 32);
+  const b = dHash(gradient(64, 48), 64, 48);
+  const c = dHash(gradient(32, 32, true), 32, 32);
+
+  expect(a).toHaveLength(16);
+  expect(hammingDistance(a, b)).toBe(0);
+  expect(hammingDistance(a, c)).toBe(64);
+});
+
+test('groups exact matches globally and near matches within the time window', () => {
+  const asset = (uri: string, capturedAt: number, width = 100) => ({
+    uri,
+    capturedAt,
+    width,
+    height: 100,
+  });
+  const groups = groupDuplicates(
+    [
+      { asset: asset('a', 0), hash: '0000000000000000' },
+      { asset: asset('b', 1_000_000_000), hash: '0000000000000000' },
+      { asset: asset('c', 5_000), hash: 'ff00000000000000' },
+      { asset: asset('d', 10_000, 200), hash: 'ff00000000000001' },
+      { asset: asset('e', 2_000_000_000), hash: 'ff00000000000003' },
+    ],
+    { maxDistance: 2, windowMs: 60_000 },
+  );
+
+  expect(groups.map(g => g.items.map(a => a.uri).sort())).toEqual([
+    ['a', 'b'],
+    ['c', 'd'],
+  ]);
+  expect(groups[0].exact).toBe(true);
+  expect(groups[1].exact).toBe(false);
+  expect(suggestKeeper(groups[1]).uri).toBe('d');
+});
+
+test('resolving a group trashes and journals every copy but the keeper', async () => {
+  const items = [{ uri: 'a' }, { uri: 'b' }, { uri: 'c' }];
+
+  expect((await trashDuplicates(items, 'b')).map(a => a.uri)).toEqual(['a', 'c']);
+
+  expect([...(await getTrashSet())].sort()).toEqual(['a', 'c']);
+  const journal = await readJournal();
+  expect(journal.map(e => [e.kind, e.asset.uri])).toEqual([
+    ['trash', 'a'],
+    ['trash', 'c'],
+  ]);
+  expect(journal[1].group).toBe(journal[0].id);
+  expect(liveDecisions(journal).trash.map(e => e.asset.uri)).toEqual(['a', 'c']);
+});
+
+test('a scan writes the hash cache once, including when it is cancelled', async () => {
+  const AsyncStorage = require('@react-native-async-storage/async-storage');
+  await AsyncStorage.clear();
+  AsyncStorage.multiSet.mockClear();
+
+  let checks = 0;
+  expect(await scanForDuplicates(() => {}, () => ++checks > 3)).toBeNull();
+  expect(AsyncStorage.multiSet).toHaveBeenCalledTimes(1);
+  expect([...(await loadHashCache()).keys()]).toEqual(['p0', 'p1', 'p2']);
+
+  AsyncStorage.multiSet.mockClear();
+  const groups = await scanForDuplicates(
+    () => {},
+    () => false,
+  );
+  expect(AsyncStorage.multiSet).toHaveBeenCalledTimes(1);
+  expect(groups?.map(g => g.items.map(a => a.uri).sort())).toEqual([['p1', 'p3']]);
+  expect((await loadHashCache()).size).toBe(4);
+});
+
+test('the hash cache is split into segments and shrinks cleanly', async () => {
+  const AsyncStorage = require('@react-native-async-storage/async-storage');
+  await AsyncStorage.clear();
+  const big = new Map(Array.from({ length: 4500 }, (_, i) => [`p${i}`, { h: `h${i}`, s: i }]));
+
+  await saveHashCache(big);
+  expect(await loadHashCache()).toEqual(big);
+  expect(await AsyncStorage.getItem('gallery_phash_cache_v2:2')).not.toBeNull();
+
+  await saveHashCache(new Map([['p0', { h: 'h0', s: 0 }]]));
+  expect([...(await loadHashCache()).keys()]).toEqual(['p0']);
+  expect(await AsyncStorage.getItem('gallery_phash_cache_v2:1')).toBeNull();
+
+  await AsyncStorage.setItem('gallery_phash_cache_v2:0', '{"p0":');
+  expect((await loadHashCache()).size).toBe(0);
+});
+
+test('on Android photos are hashed from resized thumbnails, so look-alikes group', async () => {
+  const AsyncStorage = require('@react-native-async-storage/async-storage');
+  await AsyncStorage.clear();
+  jest.replaceProperty(Platform, 'OS', 'android');
+  try {
+    const groups = await scanForDuplicates(
+      () => {},
+      () => false,
+    );
+    expect(groups?.map(g => g.items.map(a => a.uri).sort()).sort()).toEqual([
+      ['p0', 'p1'],
+      ['p2', 'p3'],
+    ]);
+    expect([...(await loadHashCache()).values()].every(e => !e.h.startsWith('meta:'))).toBe(true);
+    expect(unlink).toHaveBeenCalledTimes(4);
+  } finally {
+    jest.restoreAllMocks();
+  }
+});
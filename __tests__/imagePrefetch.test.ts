@@ -0,0 +1,57 @@
+/**
+ * @format
+ */
+
+import { createPrefetcher } from '../src/imagePrefetch';
+
+function fakeLoader() {
+  const requests = new Map<string, { id: number; finish: () => void }>();
+  const aborted: number[] = [];
+  let nextId = 1;
+  return {
+    requests,
+    aborted,
+    deps: {
+      prefetch(uri: string, onRequestId: (id: number) => void) {
+        const id = nextId++;
+        onRequestId(id);
+        return new Promise<boolean>(resolve => requests.set(uri, { id, finish: () => resolve(true) }));
+      },
+      abort(id: number) {
+        aborted.push(id);
+      },
+    },
+  };
+}
+
+const flush = () => new Promise<void>(resolve => setTimeout(() => resolve(), 0));
+
+test('loads the window in order, a couple at a time', async () => {
+  const loader = fakeLoader();
+  const p = createPrefetcher(loader.deps);
+  p.setWindow(['a', 'b', 'c', 'd']);
+  expect([...loader.requests.keys()]).toEqual(['a', 'b']);
+
+  loader.requests.get('a')!.finish();
+  await flush();
+  expect(p.isDone('a')).toBe(true);
+  expect([...loader.requests.keys()]).toEqual(['a', 'b', 'c']);
+});
+
+test('items that leave the window are aborted and forgotten', async () => {
+  const loader = fakeLoader();
+  const p = createPrefetcher(loader.deps);
+  p.setWindow(['a', 'b']);
+  loader.requests.get('a')!.finish();
+  await flush();
+
+  p.setWindow(['c', 'd']);
+  expect(loader.aborted).toEqual([loader.requests.get('b')!.id]);
+  expect(p.isDone('a')).toBe(false);
+
+  // a late answer for the aborted request doesn't count
+  loader.requests.get('b')!.finish();
+  await flush();
+  expect(p.isDone('b')).toBe(false);
+  expect([...loader.requests.keys()]).toEqual(['a', 'b', 'c', 'd']);
+});
@@ -0,0 +1,34 @@
+/**
+ * @format
+ */
+
+import type { PhotoIdentifier } from '@react-native-camera-roll/camera-roll';
+import { assetDetails, assetFromNode, formatLocation, parseAsset } from '../src/mediaAsset';
+
+const node = {
+  id: 'A1',
+  type: 'image',
+  group_name: ['Camera', 'Trips'],
+  image: { uri: 'ph://A1', filename: 'IMG_0001.HEIC', width: 4032, height: 3024, fileSize: 2_500_000 },
+  timestamp: 1_700_000_000,
+  location: { latitude: 47.37689, longitude: -8.5417, altitude: 400 },
+} as unknown as PhotoIdentifier['node'];
+
+test('album and location survive being persisted with the queue', () => {
+  const asset = assetFromNode(node);
+  expect(asset.albums).toEqual(['Camera', 'Trips']);
+  expect(asset.location).toEqual({ latitude: 47.37689, longitude: -8.5417 });
+  expect(parseAsset(JSON.parse(JSON.stringify(asset)))).toEqual(asset);
+
+  expect(assetFromNode({ ...node, location: { latitude: 0, longitude: 0 } }).location).toBeNull();
+  expect(parseAsset({ uri: 'x', location: { latitude: 'n' } })?.location).toBeNull();
+});
+
+test('details list what is known, in display order', () => {
+  const rows = assetDetails(assetFromNode(node));
+  expect(rows.map(r => r.label)).toEqual(['Taken', 'File', 'Dimensions', 'Size', 'Albums', 'Location']);
+  expect(rows.find(r => r.label === 'Location')?.value).toBe(formatLocation({ latitude: 47.37689, longitude: -8.5417 }));
+  expect(formatLocation({ latitude: -33.8688, longitude: 151.2093 })).toBe('33.86880° S, 151.20930° E');
+
+  expect(assetDetails({ uri: 'bare' })).toEqual([]);
+});
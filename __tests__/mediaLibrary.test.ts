@@ -0,0 +1,58 @@
+/**
+ * @format
+ */
+
+import { CameraRoll } from '@react-native-camera-roll/camera-roll';
+import { LibraryPage, walkLibrary } from '../src/mediaLibrary';
+
+// Five items, served two at a time; cursors are offsets like on Android.
+jest.mock('@react-native-camera-roll/camera-roll', () => ({
+  CameraRoll: {
+    getPhotos: jest.fn(async ({ first, after }: { first: number; after?: string }) => {
+      const start = Number(after ?? 0);
+      const uris = ['a', 'b', 'c', 'd', 'e'].slice(start, start + first);
+      const end = start + uris.length;
+      return {
+        edges: uris.map(uri => ({ node: { image: { uri } } })),
+        page_info: { has_next_page: end < 5, end_cursor: String(end) },
+      };
+    }),
+  },
+}));
+
+const getPhotos = CameraRoll.getPhotos as jest.Mock;
+
+function record() {
+  const pages: { uris: string[]; after?: string; next?: string }[] = [];
+  const visit = ({ edges, after, next }: LibraryPage) => {
+    pages.push({ uris: edges.map(e => e.node.image.uri), after, next });
+  };
+  return { pages, visit };
+}
+
+beforeEach(() => getPhotos.mockClear());
+
+test('walks every page, telling each one where it started and where the next starts', async () => {
+  const { pages, visit } = record();
+  await walkLibrary(2, visit, { assetType: 'All' });
+
+  expect(pages).toEqual([
+    { uris: ['a', 'b'], after: undefined, next: '2' },
+    { uris: ['c', 'd'], after: '2', next: '4' },
+    { uris: ['e'], after: '4', next: undefined },
+  ]);
+  expect(getPhotos.mock.calls[1][0]).toEqual({ assetType: 'All', first: 2, after: '2' });
+});
+
+test('stops when the visitor returns false and can carry on from a cursor', async () => {
+  const { pages, visit } = record();
+  await walkLibrary(2, page => {
+    visit(page);
+    return false;
+  });
+  expect(pages.map(p => p.uris)).toEqual([['a', 'b']]);
+
+  await walkLibrary(2, visit, {}, pages[0].next);
+  expect(pages.map(p => p.uris)).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+  expect(getPhotos).toHaveBeenCalledTimes(3);
+});
@@ -0,0 +1,76 @@
+/**
+ * @format
+ */
+
+import type { JournalEntry } from '../src/actionJournal';
+import { computeStats, periodStart } from '../src/reviewStats';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const MIN = 60 * 1000;
+const DAY = 24 * 60 * MIN;
+// A Wednesday, local noon
+const T0 = new Date(2024, 4, 15, 12).getTime();
+
+let nextId = 0;
+function entry(
+  kind: JournalEntry['kind'],
+  at: number,
+  extra: Partial<JournalEntry> = {},
+): JournalEntry {
+  return {
+    id: String(nextId++),
+    at,
+    kind,
+    asset: { uri: `photo://${nextId}` },
+    pos: null,
+    scope: null,
+    target: null,
+    group: null,
+    ...extra,
+  };
+}
+
+test('periodStart snaps to local midnight and Monday', () => {
+  expect(periodStart(T0, 'day')).toBe(new Date(2024, 4, 15).getTime());
+  expect(periodStart(T0, 'week')).toBe(new Date(2024, 4, 13).getTime());
+});
+
+test('counts decisions per day, ignoring undone ones', () => {
+  const trashed = entry('trash', T0 + MIN);
+  const entries = [
+    entry('skip', T0),
+    trashed,
+    entry('keep', T0 + 2 * MIN),
+    entry('undo', T0 + 3 * MIN, { target: trashed.id }),
+    entry('trash', T0 + DAY),
+    entry('delete', T0 + DAY, { asset: { uri: 'x', fileSize: 2048 } }),
+    entry('delete', T0 + DAY),
+  ];
+
+  const stats = computeStats(entries, 'day');
+  expect(stats.totals).toEqual({
+    reviewed: 3,
+    trashed: 1,
+    kept: 1,
+    deleted: 2,
+    bytesFreed: 2048,
+    unknownSizes: 1,
+  });
+  expect(stats.buckets.map(b => b.reviewed)).toEqual([1, 2]);
+  expect(computeStats(entries, 'week').buckets).toHaveLength(1);
+});
+
+test('review speed leaves out long pauses', () => {
+  const entries = [
+    entry('skip', T0),
+    entry('skip', T0 + MIN),
+    entry('skip', T0 + 2 * MIN),
+    entry('skip', T0 + 60 * MIN),
+  ];
+  const stats = computeStats(entries, 'day');
+  expect(stats.activeMs).toBe(2 * MIN);
+  expect(stats.perMinute).toBe(2);
+});
@@ -0,0 +1,608 @@
+/**
+ * @format
+ */
+
+import type { MediaAsset } from '../src/mediaAsset';
+import {
+  batchAction,
+  CachedTotal,
+  CountOptions,
+  createSessionEngine,
+  MediaSource,
+  SavedProgress,
+  SessionAction,
+  SessionStorage,
+} from '../src/session/sessionEngine';
+
+function fakeLibrary(count: number): MediaSource & { uris: string[] } {
+  const uris = Array.from({ length: count }, (_, i) => `photo://${i}`);
+  return {
+    uris,
+    async getPage(first, after) {
+      const start = after ? Number(after) : 0;
+      const end = start + first;
+      return {
+        assets: uris.slice(start, end).map(uri => ({ uri })),
+        endCursor: end < uris.length ? String(end) : null,
+      };
+    },
+    async countAll() {
+      return { total: uris.length, newest: null };
+    },
+  };
+}
+
+function memoryStorage(): SessionStorage & {
+  progress: SavedProgress;
+  trash: Set<string>;
+  keep: Set<string>;
+  journal: SessionAction[];
+  total: CachedTotal;
+} {
+  const store = {
+    progress: { pos: 0, queue: [], after: null, anchor: null } as SavedProgress,
+    trash: new Set<string>(),
+    keep: new Set<string>(),
+    journal: [] as SessionAction[],
+    undone: new Set<string>(),
+    total: { total: 0, ts: 0 } as CachedTotal,
+    async loadProgress() {
+      return { ...store.progress, queue: [...store.progress.queue] };
+    },
+    async saveProgress(p: SavedProgress) {
+      store.progress = p;
+    },
+    async clearProgress() {
+      store.progress = { pos: 0, queue: [], after: null, anchor: null };
+    },
+    async loadTotal() {
+      return store.total;
+    },
+    async saveTotal(t: CachedTotal) {
+      store.total = t;
+    },
+    async getTrashSet() {
+      return new Set(store.trash);
+    },
+    async addToTrash(asset: MediaAsset) {
+      store.trash.add(asset.uri);
+    },
+    async removeFromTrash(uri: string) {
+      store.trash.delete(uri);
+    },
+    async getKeepSet() {
+      return new Set(store.keep);
+    },
+    async addToKeep(asset: MediaAsset) {
+      store.keep.add(asset.uri);
+    },
+    async removeFromKeep(uri: string) {
+      store.keep.delete(uri);
+    },
+    async getHiddenAssets() {
+      return [...store.trash, ...store.keep].map(uri => ({ uri }));
+    },
+    async loadHistory(limit: number) {
+      return store.journal
+        .filter(a => !store.undone.has(a.id))
+        .reverse()
+        .slice(0, limit);
+    },
+    async recordAction(a: Omit<SessionAction, 'id'>) {
+      const action = { ...a, id: String(store.journal.length) };
+      store.journal.push(action);
+      return action;
+    },
+    async recordBatch(actions: Omit<SessionAction, 'id'>[]) {
+      const items = actions.map((a, i) => ({ ...a, id: `${store.journal.length}.${i}` }));
+      const batch = batchAction(items);
+      store.journal.push(batch);
+      return batch;
+    },
+    async recordUndo(a: SessionAction) {
+      store.undone.add(a.id);
+    },
+  };
+  return store;
+}
+
+const opts = { pageSize: 10, minQueueBeforeRefill: 4, maxQueuePersist: 50 };
+
+test('loads the first page and walks the library with skip/trash', async () => {
+  const lib = fakeLibrary(25);
+  const storage = memoryStorage();
+  const engine = createSessionEngine(lib, storage, opts);
+
+  await engine.load();
+  expect(engine.getState().queue?.[0].uri).toBe('photo://0');
+
+  await engine.skip();
+  await engine.trash();
+
+  const s = engine.getState();
+  expect(s.pos).toBe(2);
+  expect(s.queue?.[0].uri).toBe('photo://2');
+  expect(s.trashCount).toBe(1);
+  expect(storage.trash.has('photo://1')).toBe(true);
+  expect(storage.progress.pos).toBe(2);
+
+  for (let i = 0; i < 23; i++) await engine.skip();
+  expect(engine.getState().queue).toEqual([]);
+  expect(engine.getState().afterCursor).toBeNull();
+  expect(await engine.skip()).toBe(false);
+});
+
+test('undo restores the photo and untrashes it', async () => {
+  const storage = memoryStorage();
+  const engine = createSessionEngine(fakeLibrary(25), storage, opts);
+  await engine.load();
+
+  await engine.trash();
+  expect(await engine.undo()).toBe(true);
+
+  const s = engine.getState();
+  expect(s.pos).toBe(0);
+  expect(s.queue?.[0].uri).toBe('photo://0');
+  expect(s.trashCount).toBe(0);
+  expect(storage.trash.size).toBe(0);
+  expect(await engine.undo()).toBe(false);
+});
+
+test('kept photos stay hidden after a restart', async () => {
+  const storage = memoryStorage();
+  const engine = createSessionEngine(fakeLibrary(25), storage, opts);
+  await engine.load();
+
+  await engine.keep();
+  await engine.skip();
+  expect(engine.getState().keepCount).toBe(1);
+
+  await engine.restart();
+  expect(engine.getState().queue?.[0].uri).toBe('photo://1');
+
+  await engine.skip();
+  await engine.undo();
+  expect(storage.keep.has('photo://0')).toBe(true);
+});
+
+test('undo of a keep removes it from the keep list', async () => {
+  const storage = memoryStorage();
+  const engine = createSessionEngine(fakeLibrary(25), storage, opts);
+  await engine.load();
+
+  await engine.keep();
+  await engine.undo();
+  expect(storage.keep.size).toBe(0);
+  expect(engine.getState().keepCount).toBe(0);
+  expect(engine.getState().queue?.[0].uri).toBe('photo://0');
+});
+
+test('in-memory history is capped but undo keeps reading the journal', async () => {
+  const engine = createSessionEngine(fakeLibrary(25), memoryStorage(), {
+    ...opts,
+    historyLimit: 2,
+  });
+  await engine.load();
+  await engine.skip();
+  await engine.skip();
+  await engine.skip();
+  expect(engine.getState().history.map(a => a.asset.uri)).toEqual([
+    'photo://2',
+    'photo://1',
+  ]);
+
+  await engine.undo();
+  await engine.undo();
+  expect(await engine.undo()).toBe(true);
+  expect(engine.getState().pos).toBe(0);
+  expect(engine.getState().queue?.[0].uri).toBe('photo://0');
+  expect(await engine.undo()).toBe(false);
+});
+
+test('resumes from saved progress and hides trashed photos', async () => {
+  const lib = fakeLibrary(25);
+  const storage = memoryStorage();
+  const first = createSessionEngine(lib, storage, opts);
+  await first.load();
+  await first.skip();
+  await first.skip();
+
+  storage.trash.add('photo://3');
+
+  const second = createSessionEngine(lib, storage, opts);
+  await second.load();
+  const s = second.getState();
+  expect(s.pos).toBe(2);
+  expect(s.queue?.slice(0, 2).map(a => a.uri)).toEqual([
+    'photo://2',
+    'photo://4',
+  ]);
+  expect(s.history.map(a => a.asset.uri)).toEqual(['photo://1', 'photo://0']);
+});
+
+test('trashed items passed over still count, so positions match the library', async () => {
+  const storage = memoryStorage();
+  storage.trash = new Set(['photo://1', 'photo://3']);
+  const engine = createSessionEngine(fakeLibrary(25), storage, opts);
+  await engine.load();
+  await engine.loadTotalCount();
+
+  await engine.skip();
+  expect(engine.getState().pos).toBe(2);
+  expect(engine.getState().queue?.[0].uri).toBe('photo://2');
+  // 2 and 4..24: photo://3 is still ahead but already decided
+  expect(engine.getState().left).toBe(22);
+
+  await engine.skip();
+  expect(engine.getState().pos).toBe(4);
+  expect(storage.progress.queue[0].uri).toBe('photo://4');
+});
+
+test('a saved place that moved in the library is found again by its anchor', async () => {
+  const lib = fakeLibrary(25);
+  const storage = memoryStorage();
+  storage.progress = {
+    pos: 5,
+    queue: lib.uris.slice(5, 10).map(uri => ({ uri, capturedAt: 5000 })),
+    after: '10',
+    anchor: { id: 'photo://5', capturedAt: 5000 },
+  };
+  const engine = createSessionEngine(
+    {
+      ...lib,
+      // with capture times, so the engine saves anchors
+      getPage: async (first, after) => {
+        const page = await lib.getPage(first, after);
+        return { ...page, assets: page.assets.map(a => ({ ...a, capturedAt: 5000 })) };
+      },
+      locate: async anchor => {
+        const i = lib.uris.indexOf(anchor.id);
+        return i >= 0 ? { pos: i, found: true } : { pos: 3, found: false };
+      },
+    },
+    storage,
+    opts,
+  );
+
+  // Unchanged: the saved queue is used as is
+  await engine.load();
+  expect(engine.getState().drift).toBeNull();
+  expect(engine.getState().pos).toBe(5);
+
+  // New photos in front: the place moves, the queue still holds and nothing is announced
+  const getPage = jest.spyOn(lib, 'getPage');
+  lib.uris.unshift('new://0', 'new://1');
+  await engine.load();
+  expect(getPage).not.toHaveBeenCalled();
+  expect(engine.getState().drift).toBeNull();
+  expect(engine.getState().pos).toBe(7);
+  expect(engine.getState().queue?.map(a => a.uri)).toEqual(lib.uris.slice(7, 12));
+
+  // Reviewed ones deleted: the cursor would skip items, so the queue is rebuilt, quietly
+  lib.uris.splice(0, 4);
+  await engine.load();
+  expect(engine.getState().drift).toBeNull();
+  expect(engine.getState().pos).toBe(3);
+  expect(engine.getState().queue?.[0].uri).toBe('photo://5');
+  expect(engine.getState().afterCursor).toBe('10');
+
+  // The item itself deleted: carry on where it was, and say so
+  lib.uris.splice(lib.uris.indexOf('photo://5'), 1);
+  await engine.load();
+  expect(engine.getState().drift).toEqual({ from: 3, to: 3 });
+  expect(engine.getState().queue?.[0].uri).toBe('photo://6');
+});
+
+test('skips over pages that are entirely trashed', async () => {
+  const lib = fakeLibrary(25);
+  const storage = memoryStorage();
+  lib.uris.slice(0, 20).forEach(u => storage.trash.add(u));
+
+  const engine = createSessionEngine(lib, storage, opts);
+  await engine.load();
+  expect(engine.getState().queue?.[0].uri).toBe('photo://20');
+});
+
+test('triage trashes the marked items, skips the rest and undoes as one step', async () => {
+  const storage = memoryStorage();
+  const engine = createSessionEngine(fakeLibrary(25), storage, { ...opts, historyLimit: 2 });
+  await engine.load();
+  await engine.skip();
+
+  expect(await engine.triage(6, ['photo://2', 'photo://5'])).toBe(true);
+  let s = engine.getState();
+  expect(s.pos).toBe(7);
+  expect(s.queue?.[0].uri).toBe('photo://7');
+  expect(s.trashCount).toBe(2);
+  expect(s.history.map(a => a.kind)).toEqual(['batch', 'skip']);
+  expect(s.history[0].items?.map(a => [a.kind, a.pos])).toEqual([
+    ['skip', 1],
+    ['trash', 2],
+    ['skip', 3],
+    ['skip', 4],
+    ['trash', 5],
+    ['skip', 6],
+  ]);
+
+  await engine.undo();
+  s = engine.getState();
+  expect(s.pos).toBe(1);
+  expect(s.queue?.slice(0, 3).map(a => a.uri)).toEqual(['photo://1', 'photo://2', 'photo://3']);
+  expect(storage.trash.size).toBe(0);
+  expect(s.history).toHaveLength(1);
+});
+
+test('jumpTo rebuilds the queue at an arbitrary position', async () => {
+  const engine = createSessionEngine(fakeLibrary(25), memoryStorage(), opts);
+  await engine.load();
+  await engine.skip();
+
+  await engine.jumpTo(17);
+  const s = engine.getState();
+  expect(s.pos).toBe(17);
+  expect(s.queue?.[0].uri).toBe('photo://17');
+  expect(s.history).toHaveLength(1);
+});
+
+test('jumpToPeriod starts at the first item captured in the period', async () => {
+  // newest first, one photo per day going back from day 24
+  const day = 86_400_000;
+  const lib = fakeLibrary(25);
+  const engine = createSessionEngine(
+    {
+      ...lib,
+      async positionOfPeriod(_start, end) {
+        return lib.uris.filter((_, i) => (24 - i) * day > end).length;
+      },
+    },
+    memoryStorage(),
+    opts,
+  );
+  await engine.load();
+
+  expect(await engine.jumpToPeriod(10 * day, 11 * day - 1)).toBe(true);
+  expect(engine.getState().pos).toBe(14);
+  expect(engine.getState().queue?.[0].uri).toBe('photo://14');
+
+  // a source that can't search by date leaves the session alone
+  const plain = createSessionEngine(fakeLibrary(25), memoryStorage(), opts);
+  await plain.load();
+  expect(await plain.jumpToPeriod(0, day)).toBe(false);
+  expect(plain.getState().pos).toBe(0);
+});
+
+test('undo after a jump goes back to where the decision was made', async () => {
+  const storage = memoryStorage();
+  const engine = createSessionEngine(fakeLibrary(25), storage, opts);
+  await engine.load();
+  await engine.skip();
+  await engine.trash();
+
+  await engine.jumpTo(17);
+  await engine.undo();
+  const s = engine.getState();
+  expect(s.pos).toBe(1);
+  expect(s.queue?.slice(0, 2).map(a => a.uri)).toEqual([
+    'photo://1',
+    'photo://2',
+  ]);
+  expect(storage.trash.size).toBe(0);
+});
+
+test('a saved position without a queue is rebuilt in place', async () => {
+  const storage = memoryStorage();
+  storage.progress = { pos: 13, queue: [], after: null, anchor: null };
+  const engine = createSessionEngine(fakeLibrary(25), storage, opts);
+
+  await engine.load();
+  expect(engine.getState().pos).toBe(13);
+  expect(engine.getState().queue?.[0].uri).toBe('photo://13');
+});
+
+test('reconcile drops queued items deleted outside the app', async () => {
+  const lib = fakeLibrary(25);
+  const deleted = new Set(['photo://0', 'photo://2']);
+  const storage = memoryStorage();
+  const engine = createSessionEngine(
+    {
+      ...lib,
+      findMissing: async uris => new Set(uris.filter(u => deleted.has(u))),
+    },
+    storage,
+    opts,
+  );
+  await engine.load();
+  await engine.loadTotalCount();
+
+  expect(await engine.reconcile()).toBe(2);
+  const s = engine.getState();
+  expect(s.pos).toBe(0);
+  expect(s.totalCount).toBe(23);
+  expect(storage.total.total).toBe(23);
+  expect(s.queue?.slice(0, 2).map(a => a.uri)).toEqual([
+    'photo://1',
+    'photo://3',
+  ]);
+  expect(await engine.reconcile()).toBe(0);
+});
+
+test('swipes are not held up by a pending existence check', async () => {
+  const lib = fakeLibrary(25);
+  let answer: (missing: Set<string>) => void = () => {};
+  const engine = createSessionEngine(
+    {
+      ...lib,
+      findMissing: () => new Promise<Set<string>>(resolve => (answer = resolve)),
+    },
+    memoryStorage(),
+    opts,
+  );
+  await engine.load();
+
+  const reconciled = engine.reconcile();
+  expect(engine.getState().busy).toBe(false);
+  expect(await engine.skip()).toBe(true);
+  expect(engine.getState().queue?.[0].uri).toBe('photo://1');
+
+  answer(new Set(['photo://2']));
+  expect(await reconciled).toBe(1);
+  expect(engine.getState().pos).toBe(1);
+  expect(engine.getState().queue?.slice(0, 2).map(a => a.uri)).toEqual(['photo://1', 'photo://3']);
+});
+
+test('restart clears progress', async () => {
+  const storage = memoryStorage();
+  const engine = createSessionEngine(fakeLibrary(25), storage, opts);
+  await engine.load();
+  await engine.jumpTo(12);
+
+  await engine.restart();
+  expect(engine.getState().pos).toBe(0);
+  expect(engine.getState().queue?.[0].uri).toBe('photo://0');
+  expect(storage.progress.pos).toBe(0);
+});
+
+test('loadTotalCount uses a fresh cache and recomputes a stale one', async () => {
+  const lib = fakeLibrary(25);
+  const storage = memoryStorage();
+  const countAll = jest.spyOn(lib, 'countAll');
+  let now = 1_000_000;
+  const engine = createSessionEngine(lib, storage, { ...opts, now: () => now });
+
+  await engine.loadTotalCount();
+  expect(engine.getState().totalCount).toBe(25);
+  expect(countAll).toHaveBeenCalledTimes(1);
+
+  await engine.loadTotalCount();
+  expect(countAll).toHaveBeenCalledTimes(1);
+
+  now += 2 * 24 * 60 * 60 * 1000;
+  await engine.loadTotalCount();
+  expect(countAll).toHaveBeenCalledTimes(2);
+});
+
+test('an aborted count resumes from its last page next time', async () => {
+  const lib = fakeLibrary(25);
+  const storage = memoryStorage();
+  const controller = new AbortController();
+  const seen: number[] = [];
+  // Counts in pages of 10 and honours resume/abort like the camera roll source
+  lib.countAll = async ({ resume, signal, onProgress }: CountOptions = {}) => {
+    let counted = resume?.counted ?? 0;
+    while (true) {
+      if (signal?.aborted) throw new Error('Counting was cancelled');
+      seen.push(counted);
+      counted = Math.min(counted + 10, lib.uris.length);
+      if (counted === lib.uris.length) return { total: counted, newest: 5000 };
+      onProgress?.({ counted, after: String(counted), newest: 5000 });
+      if (counted === 10) controller.abort();
+    }
+  };
+  const engine = createSessionEngine(lib, storage, opts);
+
+  await expect(engine.loadTotalCount(controller.signal)).rejects.toThrow();
+  expect(engine.getState().counted).toBeNull();
+  expect(storage.total.partial).toEqual({ counted: 10, after: '10', newest: 5000 });
+
+  await engine.loadTotalCount();
+  expect(seen).toEqual([0, 10, 20]);
+  expect(engine.getState().totalCount).toBe(25);
+  expect(storage.total).toMatchObject({ total: 25, newest: 5000, partial: null });
+});
+
+test('a checkpoint that fails to save does not fail the count', async () => {
+  const lib = fakeLibrary(25);
+  const storage = memoryStorage();
+  const save = storage.saveTotal;
+  storage.saveTotal = async t => {
+    if (t.partial) throw new Error('disk full');
+    await save(t);
+  };
+  lib.countAll = async ({ onProgress }: CountOptions = {}) => {
+    onProgress?.({ counted: 10, after: '10', newest: 5000 });
+    return { total: 25, newest: 5000 };
+  };
+  const engine = createSessionEngine(lib, storage, opts);
+
+  await engine.loadTotalCount();
+  expect(engine.getState().totalCount).toBe(25);
+  expect(storage.total).toMatchObject({ total: 25, partial: null });
+});
+
+test('a fresh total only counts what was captured since', async () => {
+  const lib = fakeLibrary(25);
+  const storage = memoryStorage();
+  storage.total = { total: 20, ts: 1000, newest: 7000 };
+  const countAll = jest.spyOn(lib, 'countAll');
+  const countSince = jest.fn(async () => ({ total: 3, newest: 9000 }));
+  const engine = createSessionEngine({ ...lib, countSince }, storage, { ...opts, now: () => 2000 });
+
+  await engine.loadTotalCount();
+  expect(countSince).toHaveBeenCalledWith(7000);
+  expect(countAll).not.toHaveBeenCalled();
+  expect(engine.getState().totalCount).toBe(23);
+  expect(storage.total).toMatchObject({ total: 23, ts: 1000, newest: 9000 });
+});
+
+test('concurrent actions are dropped while busy', async () => {
+  const engine = createSessionEngine(fakeLibrary(25), memoryStorage(), opts);
+  await engine.load();
+
+  const [a, b] = await Promise.all([engine.skip(), engine.skip()]);
+  expect([a, b]).toEqual([true, false]);
+  expect(engine.getState().pos).toBe(1);
+});
+
+test('decisions do not wait for the library; refills land in the background', async () => {
+  const lib = fakeLibrary(25);
+  let release = () => {};
+  const engine = createSessionEngine(
+    {
+      ...lib,
+      async getPage(first, after) {
+        // everything after the first page is slow
+        if (after) await new Promise<void>(resolve => (release = resolve));
+        return lib.getPage(first, after);
+      },
+    },
+    memoryStorage(),
+    opts,
+  );
+  await engine.load();
+  // first page of 10, below the refill mark after 7 decisions
+  for (let i = 0; i < 7; i++) expect(await engine.skip()).toBe(true);
+  expect(engine.getState().queue).toHaveLength(3);
+  expect(engine.getState().busy).toBe(false);
+
+  release();
+  await new Promise<void>(resolve => setTimeout(() => resolve(), 0));
+  expect(engine.getState().queue?.map(a => a.uri)).toContain('photo://19');
+  expect(engine.getState().pos).toBe(7);
+});
+
+test('a background page fetched before a jump is dropped', async () => {
+  const lib = fakeLibrary(40);
+  const pending: (() => void)[] = [];
+  const engine = createSessionEngine(
+    {
+      ...lib,
+      async getPage(first, after) {
+        // hold the background refill's request; the jump's own fetches go through
+        if (after === '10' && pending.length === 0) await new Promise<void>(resolve => pending.push(resolve));
+        return lib.getPage(first, after);
+      },
+    },
+    memoryStorage(),
+    opts,
+  );
+  await engine.load();
+  for (let i = 0; i < 7; i++) await engine.skip();
+
+  expect(pending).toHaveLength(1);
+  await engine.jumpTo(30);
+  pending.forEach(resolve => resolve());
+  await new Promise<void>(resolve => setTimeout(() => resolve(), 0));
+  expect(engine.getState().queue?.map(a => a.uri)).toEqual(
+    Array.from({ length: 10 }, (_, i) => `photo://${30 + i}`),
+  );
+});
@@ -0,0 +1,59 @@
+/**
+ * @format
+ */
+
+import { parsePeriod, scopeIncludes, scopeKey } from '../src/session/sessionScope';
+
+test('parsePeriod covers a whole year, month or day in local time', () => {
+  expect(parsePeriod('2019')).toEqual({
+    start: new Date(2019, 0, 1).getTime(),
+    end: new Date(2020, 0, 1).getTime() - 1,
+  });
+  expect(parsePeriod(' 2019-6 ')).toEqual({
+    start: new Date(2019, 5, 1).getTime(),
+    end: new Date(2019, 6, 1).getTime() - 1,
+  });
+  expect(parsePeriod('2019-12')?.end).toBe(new Date(2020, 0, 1).getTime() - 1);
+  expect(parsePeriod('2020-02-29')).toEqual({
+    start: new Date(2020, 1, 29).getTime(),
+    end: new Date(2020, 2, 1).getTime() - 1,
+  });
+});
+
+test('parsePeriod rejects anything that is not a real period', () => {
+  for (const text of ['', '19', '2019-', '2019-13', '2019-00', '2019-02-31', '2019-02-29', '2019/06', 'June 2019']) {
+    expect(parsePeriod(text)).toBeNull();
+  }
+});
+
+test('a reversed range is one whose start comes after the end', () => {
+  const from = parsePeriod('2020-01')!;
+  const to = parsePeriod('2019')!;
+  expect(from.start > to.end).toBe(true);
+
+  // the same period on both sides is a valid one-period range
+  const day = parsePeriod('2019-06-15')!;
+  expect(day.start <= day.end).toBe(true);
+});
+
+test('scopeKey is stable and leaves defaults out', () => {
+  expect(scopeKey({})).toBe('');
+  expect(scopeKey({ order: 'newest', media: 'photos' })).toBe('');
+
+  const a = scopeKey({ album: 'Trips', fromTime: 1, toTime: 2, order: 'oldest', media: 'videos' });
+  const b = scopeKey({ media: 'videos', order: 'oldest', toTime: 2, fromTime: 1, album: 'Trips' });
+  expect(a).toBe('album:Trips|from:1|to:2|oldest|media:videos');
+  expect(b).toBe(a);
+
+  expect(scopeKey({ fromTime: 0 })).toBe('from:0');
+  expect(scopeKey({ album: 'Trips' })).not.toBe(scopeKey({ album: 'Trips', media: 'all' }));
+});
+
+test('scopeIncludes treats fromTime as exclusive and missing metadata as a match', () => {
+  const scope = { album: 'Trips', fromTime: 1000, toTime: 2000 };
+  expect(scopeIncludes(scope, { uri: 'a', capturedAt: 1000 })).toBe(false);
+  expect(scopeIncludes(scope, { uri: 'a', capturedAt: 2000 })).toBe(true);
+  expect(scopeIncludes(scope, { uri: 'a', albums: ['Home'] })).toBe(false);
+  expect(scopeIncludes(scope, { uri: 'a' })).toBe(true);
+  expect(scopeIncludes(scope, { uri: 'a', kind: 'video' })).toBe(false);
+});
@@ -0,0 +1,53 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DEFAULT_SETTINGS,
+  getSettings,
+  loadSettings,
+  parseSettings,
+  sessionOptions,
+  subscribeSettings,
+  swipeThreshold,
+  updateSettings,
+} from '../src/settings';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+test('parseSettings keeps valid values and defaults the rest', () => {
+  expect(parseSettings(null)).toEqual(DEFAULT_SETTINGS);
+  expect(
+    parseSettings({ trashDirection: 'left', sensitivity: 'extreme', haptics: false, prefetchDepth: 7 }),
+  ).toEqual({ ...DEFAULT_SETTINGS, trashDirection: 'left', haptics: false });
+});
+
+test('updateSettings persists and notifies subscribers', async () => {
+  await AsyncStorage.setItem('gallery_settings_v1', JSON.stringify({ undoDepth: 200 }));
+  expect((await loadSettings()).undoDepth).toBe(200);
+
+  const seen: boolean[] = [];
+  const unsub = subscribeSettings(() => seen.push(getSettings().confirmBeforeTrash));
+  await updateSettings({ confirmBeforeTrash: true });
+  unsub();
+
+  expect(seen).toEqual([true]);
+  expect(JSON.parse((await AsyncStorage.getItem('gallery_settings_v1'))!)).toMatchObject({
+    undoDepth: 200,
+    confirmBeforeTrash: true,
+  });
+});
+
+test('maps settings onto the engine and the swipe threshold', () => {
+  expect(sessionOptions({ ...DEFAULT_SETTINGS, prefetchDepth: 50, recountAfterHours: 1 })).toEqual({
+    pageSize: 200,
+    minQueueBeforeRefill: 50,
+    historyLimit: 50,
+    totalMaxAgeMs: 3600000,
+  });
+  expect(swipeThreshold('medium', 400)).toBe(72);
+  expect(swipeThreshold('high', 200)).toBe(36);
+});
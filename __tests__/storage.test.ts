@@ -0,0 +1,118 @@
+/**
+ * @format
+ */
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+// Fresh modules per test: migration runs once per module instance, like once per app start.
+let AsyncStorage: typeof import('@react-native-async-storage/async-storage').default;
+let storage: typeof import('../src/storage');
+let trash: typeof import('../src/trashStore');
+let keep: typeof import('../src/keepStore');
+let journal: typeof import('../src/actionJournal');
+let session: typeof import('../src/session/asyncSessionStorage');
+
+beforeEach(() => {
+  jest.resetModules();
+  AsyncStorage = require('@react-native-async-storage/async-storage');
+  storage = require('../src/storage');
+  trash = require('../src/trashStore');
+  keep = require('../src/keepStore');
+  journal = require('../src/actionJournal');
+  session = require('../src/session/asyncSessionStorage');
+});
+
+test('migrates v1 session keys, trash and keep into versioned documents', async () => {
+  await AsyncStorage.multiSet([
+    ['gallery_progress_global_pos_v1', '12'],
+    ['gallery_progress_queue_v1', JSON.stringify(['photo://13', { uri: 'photo://14' }])],
+    ['gallery_progress_after_cursor_v1', 'cursor-1'],
+    ['gallery_progress_global_pos_v1:album:Trips', '3'],
+    ['gallery_total_photos_cached_v1', '900'],
+    ['gallery_total_photos_cached_ts_v1', '1000'],
+    ['gallery_trash_entries_v2', JSON.stringify({ version: 2, entries: [{ uri: 'photo://1', trashedAt: 5 }] })],
+    ['gallery_keep_entries_v1', JSON.stringify([{ uri: 'photo://2', keptAt: 6 }])],
+  ]);
+
+  const store = session.createAsyncSessionStorage({});
+  expect(await store.loadProgress()).toEqual({
+    pos: 12,
+    queue: [{ uri: 'photo://13' }, expect.objectContaining({ uri: 'photo://14' })],
+    after: 'cursor-1',
+    anchor: null,
+  });
+  expect(await store.loadTotal()).toEqual({ total: 900, ts: 1000 });
+  expect(await session.listSavedPositions()).toEqual(
+    expect.arrayContaining([
+      { scope: '', pos: 12, anchor: null },
+      { scope: 'album:Trips', pos: 3, anchor: null },
+    ]),
+  );
+  expect((await trash.getTrashEntries()).map(e => [e.uri, e.trashedAt])).toEqual([['photo://1', 5]]);
+  expect((await keep.getKeepEntries()).map(e => e.uri)).toEqual(['photo://2']);
+
+  const keys = await AsyncStorage.getAllKeys();
+  expect(keys.filter(k => k.endsWith('_v1') || k.includes('_v1:'))).toEqual([]);
+  expect(await AsyncStorage.getItem('gallery_schema_version')).toBe(String(storage.SCHEMA_VERSION));
+});
+
+test('moves the v2 journal into versioned documents', async () => {
+  await AsyncStorage.multiSet([
+    ['gallery_schema_version', '2'],
+    ['gallery_action_journal_v1:meta', JSON.stringify({ count: 2 })],
+    [
+      'gallery_action_journal_v1:0',
+      JSON.stringify([
+        { id: '0', at: 1, kind: 'trash', asset: { uri: 'a' } },
+        { id: '1', at: 2, kind: 'keep', asset: { uri: 'b' } },
+      ]),
+    ],
+  ]);
+
+  expect((await journal.readJournal()).map(e => [e.id, e.kind])).toEqual([
+    ['0', 'trash'],
+    ['1', 'keep'],
+  ]);
+  expect((await journal.appendJournal({ kind: 'skip', asset: { uri: 'c' } })).id).toBe('2');
+
+  const keys = await AsyncStorage.getAllKeys();
+  expect(keys.filter(k => k.startsWith('gallery_action_journal_v1'))).toEqual([]);
+  expect(storage.decodeDoc((await AsyncStorage.getItem('gallery_journal_v2:meta'))!)).toEqual({ count: 3 });
+});
+
+test('a damaged trash list is set aside and rebuilt from the journal', async () => {
+  await journal.appendJournalBatch([
+    { kind: 'trash', asset: { uri: 'a' } },
+    { kind: 'trash', asset: { uri: 'b' } },
+    { kind: 'trash', asset: { uri: 'c' } },
+    { kind: 'recover', asset: { uri: 'b' } },
+  ]);
+  const [undone] = await journal.appendJournalBatch([{ kind: 'trash', asset: { uri: 'd' } }]);
+  await journal.appendJournal({ kind: 'undo', asset: undone.asset, target: undone.id });
+  await trash.addToTrash('stale');
+
+  const raw = (await AsyncStorage.getItem('gallery_trash_v3'))!;
+  await AsyncStorage.setItem('gallery_trash_v3', raw.replace('stale', 'stalf'));
+
+  expect((await trash.getTrashEntries()).map(e => e.uri)).toEqual(['a', 'c']);
+  expect(await AsyncStorage.getItem('gallery_trash_v3:corrupt')).toContain('stalf');
+});
+
+test('a damaged session snapshot resumes after the last decision in its scope', async () => {
+  const store = session.createAsyncSessionStorage({});
+  await journal.appendJournal({ kind: 'skip', asset: { uri: 'x' }, pos: 41, scope: '' });
+  await journal.appendJournal({ kind: 'skip', asset: { uri: 'y' }, pos: 7, scope: 'album:Other' });
+  await store.saveProgress({ pos: 42, queue: [{ uri: 'z' }], after: 'c', anchor: null });
+
+  await AsyncStorage.setItem('gallery_session_v2', '{"v":1,"sum":"0","da');
+
+  expect(await store.loadProgress()).toEqual({ pos: 42, queue: [], after: null, anchor: null });
+});
+
+test('concurrent trash updates are not lost', async () => {
+  await Promise.all(Array.from({ length: 20 }, (_, i) => trash.addToTrash(`p${i}`)));
+  await Promise.all([trash.removeFromTrash('p0'), trash.removeFromTrash('p1')]);
+  expect(await trash.getTrashSet()).toEqual(new Set(Array.from({ length: 18 }, (_, i) => `p${i + 2}`)));
+});
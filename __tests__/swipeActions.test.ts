@@ -0,0 +1,32 @@
+/**
+ * @format
+ */
+
+import { Platform } from 'react-native';
+import { actionForKey, describeCard, describeOutcome } from '../src/swipeActions';
+
+test('letters map to actions and modifiers are left alone', () => {
+  expect(actionForKey({ keyCode: 0, unicodeChar: 'T', hasNoModifiers: true })).toBe('trash');
+  expect(actionForKey({ keyCode: 0, unicodeChar: 's', hasNoModifiers: true })).toBe('skip');
+  expect(actionForKey({ keyCode: 0, unicodeChar: 'u', hasNoModifiers: true })).toBe('undo');
+  expect(actionForKey({ keyCode: 0, unicodeChar: 'o', hasNoModifiers: true })).toBe('openTrash');
+  expect(actionForKey({ keyCode: 0, unicodeChar: 'i', hasNoModifiers: true })).toBe('info');
+  expect(actionForKey({ keyCode: 0, unicodeChar: 'z', hasNoModifiers: true })).toBeNull();
+  expect(actionForKey({ keyCode: 0, unicodeChar: 't', hasNoModifiers: false })).toBeNull();
+});
+
+test('arrow keys follow the swipe directions', () => {
+  const [right, left, up] = Platform.OS === 'ios' ? [79, 80, 82] : [22, 21, 19];
+  expect(actionForKey({ keyCode: right })).toBe('trash');
+  expect(actionForKey({ keyCode: left })).toBe('skip');
+  expect(actionForKey({ keyCode: up })).toBe('keep');
+  expect(actionForKey({ keyCode: right }, 'left')).toBe('skip');
+  expect(actionForKey({ keyCode: left }, 'left')).toBe('trash');
+});
+
+test('describes the card and the outcome of an action', () => {
+  const video = { uri: 'v', kind: 'video' as const, filename: 'clip.mp4' };
+  expect(describeCard(video, 4, 20)).toBe('Video 5 of 20, clip.mp4');
+  expect(describeOutcome('trash', { uri: 'p' }, 5, null)).toBe('Moved to trash. Photo 6 of unknown.');
+  expect(describeOutcome('skip', null, 20, 20)).toBe('Skipped. No more items.');
+});
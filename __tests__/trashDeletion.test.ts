@@ -0,0 +1,157 @@
+/**
+ * @format
+ */
+
+import { deleteInChunks, DeleteDeps, forgetGoneEntries } from '../src/trashDeletion';
+import { liveDecisions, readJournal } from '../src/actionJournal';
+import { addToTrash, getTrashEntries } from '../src/trashStore';
+
+jest.mock('@react-native-camera-roll/camera-roll', () => ({ CameraRoll: {} }));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+// A fake library: deletePhotos removes what it's given unless told otherwise.
+function fakeLibrary(uris: string[]) {
+  const library = new Set(uris);
+  const calls: string[][] = [];
+  let fail: ((chunk: string[]) => unknown) | null = null;
+  const deps: DeleteDeps = {
+    deletePhotos: async chunk => {
+      calls.push(chunk);
+      const err = fail?.(chunk);
+      if (err) throw err;
+      chunk.forEach(u => library.delete(u));
+    },
+    findMissing: async check => new Set(check.filter(u => !library.has(u))),
+  };
+  return {
+    deps,
+    calls,
+    library,
+    failWith: (f: (chunk: string[]) => unknown) => {
+      fail = f;
+    },
+  };
+}
+
+const uris = Array.from({ length: 7 }, (_, i) => `photo://${i}`);
+
+test('deletes in chunks and reports progress', async () => {
+  const lib = fakeLibrary(uris);
+  const progress: number[] = [];
+
+  const res = await deleteInChunks(uris, { chunkSize: 3, onProgress: done => progress.push(done) }, lib.deps);
+
+  expect(lib.calls.map(c => c.length)).toEqual([3, 3, 1]);
+  expect(progress).toEqual([0, 3, 6, 7]);
+  expect(res).toEqual({ deleted: uris, failed: [], cancelled: [] });
+});
+
+test('a declined prompt stops the run and leaves the rest untouched', async () => {
+  const lib = fakeLibrary(uris);
+  lib.failWith(chunk => (chunk[0] === 'photo://3' ? new Error('Deletion was not completed') : null));
+
+  const res = await deleteInChunks(uris, { chunkSize: 3 }, lib.deps);
+
+  expect(lib.calls).toHaveLength(2);
+  expect(res.deleted).toEqual(uris.slice(0, 3));
+  expect(res.cancelled).toEqual(uris.slice(3));
+  expect(res.failed).toEqual([]);
+});
+
+// What camera-roll's iOS rejection looks like once RN has bridged the NSError
+function iosError(userInfo: object | null) {
+  return Object.assign(new Error("Couldn't delete assets"), {
+    code: "Couldn't delete",
+    domain: 'PHPhotosErrorDomain',
+    userInfo,
+  });
+}
+
+test('an iOS error that says the user cancelled stops the run', async () => {
+  const lib = fakeLibrary(uris);
+  lib.failWith(chunk =>
+    chunk[0] === 'photo://3' ? iosError({ NSUnderlyingError: { code: '3072', domain: 'PHPhotosErrorDomain' } }) : null,
+  );
+
+  const res = await deleteInChunks(uris, { chunkSize: 3 }, lib.deps);
+
+  expect(lib.calls).toHaveLength(2);
+  expect(res.cancelled).toEqual(uris.slice(3));
+  expect(res.failed).toEqual([]);
+});
+
+test('an unexplained iOS error that deleted nothing is a failure, not a cancel', async () => {
+  const lib = fakeLibrary(uris);
+  lib.failWith(chunk => (chunk[0] === 'photo://3' ? iosError(null) : null));
+
+  const res = await deleteInChunks(uris, { chunkSize: 3 }, lib.deps);
+
+  expect(lib.calls).toHaveLength(3);
+  expect(res.deleted).toEqual([...uris.slice(0, 3), ...uris.slice(6)]);
+  expect(res.cancelled).toEqual([]);
+  expect(res.failed.map(f => f.uri)).toEqual(uris.slice(3, 6));
+});
+
+test('an iOS error after a partial delete is a failure, and the run goes on', async () => {
+  const lib = fakeLibrary(uris);
+  lib.failWith(chunk => {
+    if (chunk[0] !== 'photo://3') return null;
+    lib.library.delete('photo://3');
+    return iosError({});
+  });
+
+  const res = await deleteInChunks(uris, { chunkSize: 3 }, lib.deps);
+
+  expect(lib.calls).toHaveLength(3);
+  expect(res.cancelled).toEqual([]);
+  expect(res.failed).toEqual([
+    { uri: 'photo://4', reason: "Couldn't delete assets" },
+    { uri: 'photo://5', reason: "Couldn't delete assets" },
+  ]);
+});
+
+test('only items confirmed gone count as deleted after a partial failure', async () => {
+  const lib = fakeLibrary(uris);
+  lib.failWith(chunk => {
+    if (!chunk.includes('photo://1')) return null;
+    lib.library.delete('photo://0'); // half-done native delete
+    return Object.assign(new Error('Could not delete all media, only deleted 1 photos.'), {
+      code: 'E_UNABLE_TO_DELETE',
+    });
+  });
+
+  const res = await deleteInChunks(uris, { chunkSize: 3 }, lib.deps);
+
+  expect(lib.calls).toHaveLength(3);
+  expect(res.deleted).toEqual(['photo://0', ...uris.slice(3)]);
+  expect(res.failed).toEqual([
+    { uri: 'photo://1', reason: 'Could not delete all media, only deleted 1 photos.' },
+    { uri: 'photo://2', reason: 'Could not delete all media, only deleted 1 photos.' },
+  ]);
+});
+
+test('falls back to what the native call reported when the library check fails', async () => {
+  const lib = fakeLibrary(uris.slice(0, 2));
+  lib.deps.findMissing = async () => {
+    throw new Error('no access');
+  };
+
+  const res = await deleteInChunks(uris.slice(0, 2), {}, lib.deps);
+
+  expect(res.deleted).toEqual(uris.slice(0, 2));
+});
+
+test('items deleted elsewhere leave the trash and stay out of it when rebuilt from the journal', async () => {
+  await addToTrash({ uri: 'photo://a' });
+  await addToTrash({ uri: 'photo://b' });
+  const [a] = await getTrashEntries();
+
+  await forgetGoneEntries([a]);
+
+  expect((await getTrashEntries()).map(e => e.uri)).toEqual(['photo://b']);
+  const journal = await readJournal();
+  expect(journal[journal.length - 1]).toMatchObject({ kind: 'gone', asset: { uri: a.uri } });
+  expect(liveDecisions(journal).trash.map(e => e.asset.uri)).not.toContain(a.uri);
+});
@@ -0,0 +1,47 @@
+/**
+ * @format
+ */
+
+import { daysLeft, findExpired } from '../src/trashRetention';
+import type { TrashEntry } from '../src/trashStore';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 100 * DAY;
+
+function entry(uri: string, trashedAt: number): TrashEntry {
+  return {
+    uri,
+    id: null,
+    kind: 'photo',
+    duration: null,
+    trashedAt,
+    capturedAt: null,
+    filename: null,
+    fileSize: null,
+    width: null,
+    height: null,
+    albums: null,
+  };
+}
+
+test('daysLeft counts down to zero', () => {
+  expect(daysLeft(entry('a', NOW), 7, NOW)).toBe(7);
+  expect(daysLeft(entry('a', NOW - 6.5 * DAY), 7, NOW)).toBe(1);
+  expect(daysLeft(entry('a', NOW - 8 * DAY), 7, NOW)).toBe(0);
+  expect(daysLeft(entry('a', NOW), null, NOW)).toBeNull();
+  expect(daysLeft(entry('a', 0), 7, NOW)).toBeNull();
+});
+
+test('findExpired returns only entries past the limit', () => {
+  const entries = [
+    entry('old', NOW - 31 * DAY),
+    entry('new', NOW - 2 * DAY),
+    entry('unknown', 0),
+  ];
+  expect(findExpired(entries, 30, NOW).map(e => e.uri)).toEqual(['old']);
+  expect(findExpired(entries, null, NOW)).toEqual([]);
+});
@@ -0,0 +1,79 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  addToTrash,
+  fillTrashMetadata,
+  getTrashEntries,
+  getTrashSet,
+  removeFromTrash,
+} from '../src/trashStore';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+test('migrates the v1 URI list into entries', async () => {
+  await AsyncStorage.setItem(
+    'gallery_trash_uris_v1',
+    JSON.stringify(['a', 'b', 'a', 42]),
+  );
+
+  const entries = await getTrashEntries();
+  expect(entries.map(e => e.uri)).toEqual(['a', 'b']);
+  expect(entries[0].trashedAt).toBeGreaterThan(0);
+  expect(entries[0].filename).toBeNull();
+  expect(await AsyncStorage.getItem('gallery_trash_uris_v1')).toBeNull();
+
+  expect(await AsyncStorage.getItem('gallery_schema_version')).toBe('3');
+  const doc = JSON.parse((await AsyncStorage.getItem('gallery_trash_v3')) ?? '{}');
+  expect(doc.data).toHaveLength(2);
+});
+
+test('addToTrash keeps asset metadata and ignores duplicates', async () => {
+  await addToTrash({
+    uri: 'x',
+    id: 'id-x',
+    capturedAt: 1_600_000_000_000,
+    filename: 'IMG_1.JPG',
+    fileSize: 1234,
+    width: 4000,
+    height: 3000,
+  });
+  await addToTrash('x');
+
+  const [entry, ...rest] = await getTrashEntries();
+  expect(rest).toEqual([]);
+  expect(entry).toMatchObject({
+    uri: 'x',
+    id: 'id-x',
+    filename: 'IMG_1.JPG',
+    fileSize: 1234,
+  });
+
+  await removeFromTrash('x');
+  expect((await getTrashSet()).size).toBe(0);
+});
+
+test('fillTrashMetadata only fills empty fields', async () => {
+  await addToTrash('a');
+  await addToTrash({ uri: 'b', filename: 'KEEP.JPG' });
+
+  await fillTrashMetadata([
+    { uri: 'a', fileSize: 10, filename: 'A.JPG' },
+    { uri: 'b', fileSize: 20, filename: 'OTHER.JPG' },
+    { uri: 'c', fileSize: 30 },
+  ]);
+
+  const entries = await getTrashEntries();
+  expect(entries.map(e => [e.uri, e.filename, e.fileSize])).toEqual([
+    ['a', 'A.JPG', 10],
+    ['b', 'KEEP.JPG', 20],
+  ]);
+});
@@ -0,0 +1,248 @@
+// actionJournal.ts
+//
+// Append-only log of every decision: swipes, recoveries, permanent deletes, and undos.
+// Trashed items deleted elsewhere (in the system gallery) are logged as "gone".
+// Undo never rewrites history; it appends an "undo" entry pointing at its target.
+// Stored in fixed-size segments (checksummed documents, see storage.ts) so appends only
+// rewrite the newest one.
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { MediaAsset, parseAsset } from "./mediaAsset";
+import { createLock, KEYS, readDoc, removeDocs, writeDocs } from "./storage";
+
+const KEY_META = `${KEYS.journal}:meta`;
+const SEGMENT_SIZE = 500;
+
+export type JournalKind = "skip" | "trash" | "keep" | "recover" | "delete" | "gone" | "undo";
+
+const KINDS: readonly JournalKind[] = ["skip", "trash", "keep", "recover", "delete", "gone", "undo"];
+
+export type JournalEntry = {
+  id: string; // sequence number, increasing
+  at: number; // ms timestamp
+  kind: JournalKind;
+  asset: MediaAsset;
+  pos: number | null; // session position when decided (swipes only)
+  scope: string | null; // session scope key (swipes only)
+  target: string | null; // id of the undone entry (undo only)
+  group: string | null; // id of the first entry of a grid batch; the batch is one undo step
+};
+
+export type JournalInput = Omit<JournalEntry, "id" | "at" | "pos" | "scope" | "target" | "group"> &
+  Partial<Pick<JournalEntry, "at" | "pos" | "scope" | "target" | "group">>;
+
+type Meta = { count: number };
+
+const segmentKey = (n: number) => `${KEYS.journal}:${n}`;
+
+function parseMeta(x: unknown): Meta | null {
+  if (!x || typeof x !== "object") return null;
+  const count = (x as Record<string, unknown>).count;
+  return typeof count === "number" && Number.isInteger(count) && count >= 0 ? { count } : null;
+}
+
+function parseSegment(x: unknown): JournalEntry[] | null {
+  if (!Array.isArray(x)) return null;
+  return x.map(parseJournalEntry).filter((e): e is JournalEntry => e !== null);
+}
+
+/**
+ * The entry count. If the meta document is lost, it's recovered from the highest intact
+ * segment, so appends carry on after the entries that survive instead of overwriting them.
+ */
+async function readMeta(): Promise<Meta> {
+  const res = await readDoc(KEY_META, parseMeta);
+  if (res.status === "ok") return res.value;
+
+  const stored = (await AsyncStorage.getAllKeys())
+    .filter((k) => k.startsWith(`${KEYS.journal}:`))
+    .map((k) => Number(k.slice(KEYS.journal.length + 1)))
+    .filter((n) => Number.isInteger(n) && n >= 0)
+    .sort((a, b) => b - a);
+  for (const n of stored) {
+    const seg = await readDoc(segmentKey(n), parseSegment);
+    if (seg.status === "ok") return { count: n * SEGMENT_SIZE + seg.value.length };
+  }
+  return { count: 0 };
+}
+
+function isKind(v: unknown): v is JournalKind {
+  return KINDS.includes(v as JournalKind);
+}
+
+export function parseJournalEntry(x: unknown): JournalEntry | null {
+  if (!x || typeof x !== "object") return null;
+  const o = x as Record<string, unknown>;
+  if (typeof o.id !== "string" || !isKind(o.kind)) return null;
+  const asset = parseAsset(o.asset);
+  if (!asset) return null;
+  return {
+    id: o.id,
+    at: typeof o.at === "number" ? o.at : 0,
+    kind: o.kind,
+    asset,
+    pos: typeof o.pos === "number" ? o.pos : null,
+    scope: typeof o.scope === "string" ? o.scope : null,
+    target: typeof o.target === "string" ? o.target : null,
+    group: typeof o.group === "string" ? o.group : null,
+  };
+}
+
+// A damaged segment is set aside by readDoc; its entries are lost, the others still read.
+async function readSegment(n: number): Promise<JournalEntry[]> {
+  const res = await readDoc(segmentKey(n), parseSegment);
+  return res.status === "ok" ? res.value : [];
+}
+
+// Appends are read-modify-write on the newest segment; serialize them.
+const serialized = createLock();
+
+async function writeEntries(inputs: JournalInput[], grouped = false): Promise<JournalEntry[]> {
+  if (inputs.length === 0) return [];
+  const meta = await readMeta();
+  const firstSeg = Math.floor(meta.count / SEGMENT_SIZE);
+  const segments = new Map<number, JournalEntry[]>([[firstSeg, await readSegment(firstSeg)]]);
+  const added: JournalEntry[] = [];
+
+  let count = meta.count;
+  for (const input of inputs) {
+    const entry: JournalEntry = {
+      id: String(count),
+      at: input.at ?? Date.now(),
+      kind: input.kind,
+      asset: input.asset,
+      pos: input.pos ?? null,
+      scope: input.scope ?? null,
+      target: input.target ?? null,
+      group: grouped ? String(meta.count) : input.group ?? null,
+    };
+    const seg = Math.floor(count / SEGMENT_SIZE);
+    if (!segments.has(seg)) segments.set(seg, []);
+    segments.get(seg)!.push(entry);
+    added.push(entry);
+    count++;
+  }
+
+  await writeDocs([
+    ...[...segments].map(([n, entries]): [string, unknown] => [segmentKey(n), entries]),
+    [KEY_META, { count }],
+  ]);
+  return added;
+}
+
+/** Appends in order, in a single storage write. Returns the stored entries. */
+export function appendJournalBatch(inputs: JournalInput[]): Promise<JournalEntry[]> {
+  return serialized(() => writeEntries(inputs));
+}
+
+/** Like appendJournalBatch, but the entries form one group (undone together). */
+export function appendJournalGroup(inputs: JournalInput[]): Promise<JournalEntry[]> {
+  return serialized(() => writeEntries(inputs, true));
+}
+
+export async function appendJournal(input: JournalInput): Promise<JournalEntry> {
+  const [entry] = await appendJournalBatch([input]);
+  return entry;
+}
+
+/**
+ * Adds entries from a backup (oldest first), skipping ones we already have. Ids are
+ * reassigned and undo targets and groups follow them. Returns how many were added.
+ */
+export function importJournal(entries: JournalEntry[]): Promise<number> {
+  return serialized(async () => {
+    const [existing, meta] = await Promise.all([readJournal(), readMeta()]);
+    const sameAs = (e: JournalEntry) => `${e.kind}|${e.at}|${e.asset.uri}|${e.target ?? ""}`;
+    const known = new Map(existing.map((e) => [sameAs(e), e.id]));
+
+    const idMap = new Map<string, string>();
+    const inputs: JournalInput[] = [];
+    for (const e of entries) {
+      const target = e.target !== null ? idMap.get(e.target) ?? null : null;
+      const mapped = { ...e, target };
+      const dup = known.get(sameAs(mapped));
+      if (dup !== undefined) {
+        idMap.set(e.id, dup);
+        continue;
+      }
+      idMap.set(e.id, String(meta.count + inputs.length));
+      // the group's first entry comes first, so it is already mapped
+      mapped.group = e.group !== null ? idMap.get(e.group) ?? null : null;
+      inputs.push(mapped);
+    }
+
+    const added = await writeEntries(inputs);
+    return added.length;
+  });
+}
+
+/** Whole journal, oldest first. */
+export async function readJournal(): Promise<JournalEntry[]> {
+  const meta = await readMeta();
+  const segments = Math.ceil(meta.count / SEGMENT_SIZE);
+  const parts = await Promise.all(Array.from({ length: segments }, (_, n) => readSegment(n)));
+  return parts.flat();
+}
+
+export function undoneIds(entries: JournalEntry[]): Set<string> {
+  const out = new Set<string>();
+  for (const e of entries) if (e.kind === "undo" && e.target) out.add(e.target);
+  return out;
+}
+
+/**
+ * What the journal says is currently trashed and kept (latest entry per URI, oldest
+ * first). Used to rebuild those lists when their stored copy is damaged.
+ */
+export function liveDecisions(entries: JournalEntry[]): { trash: JournalEntry[]; keep: JournalEntry[] } {
+  const undone = undoneIds(entries);
+  const trash = new Map<string, JournalEntry>();
+  const keep = new Map<string, JournalEntry>();
+  for (const e of entries) {
+    if (undone.has(e.id)) continue;
+    const uri = e.asset.uri;
+    if (e.kind === "trash") trash.set(uri, e);
+    else if (e.kind === "keep") keep.set(uri, e);
+    else if (e.kind === "recover" || e.kind === "delete" || e.kind === "gone") trash.delete(uri);
+  }
+  return { trash: [...trash.values()], keep: [...keep.values()] };
+}
+
+/**
+ * Most recent swipe decisions (skip/trash/keep) in a scope that haven't been undone,
+ * newest first. Reads segments back to front and stops once it has `limit` undo steps;
+ * a group counts as one step and is never cut short.
+ */
+export async function recentUndoable(scope: string, limit: number): Promise<JournalEntry[]> {
+  const meta = await readMeta();
+  const out: JournalEntry[] = [];
+  // Undo entries always come after their target, so walking backwards we see them first.
+  const undone = new Set<string>();
+  let steps = 0;
+  let group: string | null = null;
+
+  for (let seg = Math.ceil(meta.count / SEGMENT_SIZE) - 1; seg >= 0; seg--) {
+    const entries = await readSegment(seg);
+    for (let i = entries.length - 1; i >= 0; i--) {
+      const e = entries[i];
+      if (e.kind === "undo") {
+        if (e.target) undone.add(e.target);
+        continue;
+      }
+      if (e.scope !== scope || undone.has(e.id)) continue;
+      if (e.kind !== "skip" && e.kind !== "trash" && e.kind !== "keep") continue;
+      if (e.group === null || e.group !== group) {
+        if (steps === limit) return out;
+        steps++;
+        group = e.group;
+      }
+      out.push(e);
+    }
+  }
+  return out;
+}
+
+export async function clearJournal() {
+  const meta = await readMeta();
+  const segments = Math.ceil(meta.count / SEGMENT_SIZE);
+  await removeDocs([KEY_META, ...Array.from({ length: segments }, (_, n) => segmentKey(n))]);
+}
@@ -0,0 +1,31 @@
+// assetExistence.ts
+//
+// Photos deleted in the system gallery leave their URIs behind in our stores.
+// Walk the library until every URI we're checking has been seen; whatever is left over is gone.
+import { walkLibrary } from "./mediaLibrary";
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Each check walks the library, so screens space out the ones triggered by focus.
+ * An image that won't load was most likely deleted in the system gallery, so that
+ * checks straight away.
+ */
+export const RECONCILE_INTERVAL_MS = 60 * 1000;
+
+/** URIs that are no longer in the library. Throws if the library can't be read, so callers never prune on a failed check. */
+export async function findMissingUris(uris: Iterable<string>): Promise<Set<string>> {
+  const missing = new Set(uris);
+  if (missing.size === 0) return missing;
+
+  await walkLibrary(
+    PAGE_SIZE,
+    ({ edges }) => {
+      for (const edge of edges) missing.delete(edge.node.image.uri);
+      return missing.size > 0;
+    },
+    { assetType: "All" }
+  );
+
+  return missing;
+}
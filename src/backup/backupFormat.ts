@@ -0,0 +1,138 @@
+// backupFormat.ts
+//
+// The versioned JSON document written by "Export backup", and the pure parts of
+// importing one: schema validation and re-mapping assets onto this device's library.
+// URIs are device-specific, so anything not found by URI is matched by filename +
+// capture time instead.
+import { MediaAsset, parseAsset } from "../mediaAsset";
+import { parseTrashEntry, TrashEntry } from "../trashStore";
+import { KeepEntry, parseKeepEntry } from "../keepStore";
+import { JournalEntry, parseJournalEntry } from "../actionJournal";
+import { DEFAULT_RETENTION, RETENTION_OPTIONS, RetentionDays } from "../trashRetention";
+import { parseSettings, Settings } from "../settings";
+
+export const BACKUP_FORMAT = "gallery-swipe-backup";
+export const BACKUP_VERSION = 1;
+
+export type BackupProgress = {
+  scope: string; // scopeKey() of the session
+  pos: number;
+  anchor: MediaAsset | null; // the item it stopped at, remapped like trash entries on import
+};
+
+export type BackupSettings = {
+  retentionDays: RetentionDays;
+  app: Settings | null; // null in backups from before the Settings screen
+};
+
+export type BackupDoc = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number; // ms timestamp
+  progress: BackupProgress[];
+  trash: TrashEntry[];
+  keep: KeepEntry[];
+  journal: JournalEntry[];
+  settings: BackupSettings;
+};
+
+function parseList<T>(x: unknown, field: string, parse: (item: unknown) => T | null): T[] {
+  if (!Array.isArray(x)) throw new Error(`Backup is missing "${field}".`);
+  return x.map(parse).filter((v): v is T => v !== null);
+}
+
+function parseProgress(x: unknown): BackupProgress | null {
+  if (!x || typeof x !== "object") return null;
+  const o = x as Record<string, unknown>;
+  if (typeof o.scope !== "string" || typeof o.pos !== "number" || !Number.isInteger(o.pos) || o.pos < 0) return null;
+  return { scope: o.scope, pos: o.pos, anchor: o.anchor ? parseAsset(o.anchor) : null };
+}
+
+/** Throws with a user-facing message when `json` isn't a backup we can read. */
+export function parseBackup(json: string): BackupDoc {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  if (!parsed || typeof parsed !== "object") throw new Error("This is not a Gallery Swipe backup.");
+  const doc = parsed as Record<string, unknown>;
+  if (doc.format !== BACKUP_FORMAT) throw new Error("This is not a Gallery Swipe backup.");
+  if (typeof doc.version !== "number" || !Number.isInteger(doc.version) || doc.version < 1) {
+    throw new Error("The backup has no valid version.");
+  }
+  if (doc.version > BACKUP_VERSION) {
+    throw new Error("This backup was made by a newer version of the app. Update the app and try again.");
+  }
+
+  const settings = doc.settings && typeof doc.settings === "object" ? (doc.settings as Record<string, unknown>) : {};
+  const days = settings.retentionDays;
+  return {
+    format: BACKUP_FORMAT,
+    version: doc.version,
+    exportedAt: typeof doc.exportedAt === "number" ? doc.exportedAt : 0,
+    progress: parseList(doc.progress, "progress", parseProgress),
+    trash: parseList(doc.trash, "trash", parseTrashEntry),
+    keep: parseList(doc.keep, "keep", parseKeepEntry),
+    journal: parseList(doc.journal, "journal", parseJournalEntry),
+    settings: {
+      retentionDays: RETENTION_OPTIONS.includes(days as RetentionDays) ? (days as RetentionDays) : DEFAULT_RETENTION,
+      app: settings.app ? parseSettings(settings.app) : null,
+    },
+  };
+}
+
+/** What this device's library looks like, for matching. */
+export type LibraryIndex = {
+  uris: Set<string>;
+  byKey: Map<string, MediaAsset>;
+};
+
+/** Capture time is compared to the second; sub-second precision differs between platforms. */
+export function matchKey(a: { filename?: string | null; capturedAt?: number | null }): string | null {
+  if (!a.filename || !a.capturedAt) return null;
+  return `${a.filename.toLowerCase()}|${Math.round(a.capturedAt / 1000)}`;
+}
+
+export function buildLibraryIndex(assets: MediaAsset[]): LibraryIndex {
+  const byKey = new Map<string, MediaAsset>();
+  for (const a of assets) {
+    const key = matchKey(a);
+    if (key && !byKey.has(key)) byKey.set(key, a);
+  }
+  return { uris: new Set(assets.map((a) => a.uri)), byKey };
+}
+
+/**
+ * The backed-up asset pointed at this library's copy, or null if it isn't here. Only the
+ * URI and id are taken over: the index is read without sizes or locations.
+ */
+export function resolveAsset(a: MediaAsset, lib: LibraryIndex): MediaAsset | null {
+  if (lib.uris.has(a.uri)) return a;
+  const key = matchKey(a);
+  const found = key ? lib.byKey.get(key) : undefined;
+  return found ? { ...a, uri: found.uri, id: found.id } : null;
+}
+
+export type RemapResult<T> = {
+  matched: T[];
+  unmatched: T[];
+};
+
+/** Points each item at this device's asset, via `toAsset`/`withAsset` for the item's shape. */
+export function remap<T>(
+  items: T[],
+  lib: LibraryIndex,
+  toAsset: (item: T) => MediaAsset,
+  withAsset: (item: T, asset: MediaAsset) => T
+): RemapResult<T> {
+  const out: RemapResult<T> = { matched: [], unmatched: [] };
+  for (const item of items) {
+    const asset = resolveAsset(toAsset(item), lib);
+    if (asset) out.matched.push(withAsset(item, asset));
+    else out.unmatched.push(item);
+  }
+  return out;
+}
@@ -0,0 +1,172 @@
+// backupIO.ts
+//
+// Export writes the backup to a temp file and hands it to the system "save as" dialog;
+// import reads a picked file and merges it into what's already on this device.
+import { CachesDirectoryPath, readFile, unlink, writeFile } from "@dr.pogodin/react-native-fs";
+import { errorCodes, isErrorWithCode, keepLocalCopy, pick, saveDocuments, types } from "@react-native-documents/picker";
+import { assetFromNode, MediaAsset } from "../mediaAsset";
+import { walkLibrary } from "../mediaLibrary";
+import { entryAsset, getTrashEntries, setTrashEntries, TrashEntry } from "../trashStore";
+import { getKeepEntries, KeepEntry, setKeepEntries } from "../keepStore";
+import { importJournal, readJournal } from "../actionJournal";
+import { getRetentionDays, setRetentionDays } from "../trashRetention";
+import { loadSettings, updateSettings } from "../settings";
+import { listSavedPositions, restoreSavedPosition } from "../session/asyncSessionStorage";
+import { anchorOf } from "../session/sessionEngine";
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  BackupDoc,
+  buildLibraryIndex,
+  LibraryIndex,
+  parseBackup,
+  remap,
+  resolveAsset,
+} from "./backupFormat";
+
+const LIBRARY_PAGE_SIZE = 1000;
+
+export type ImportReport = {
+  trashAdded: number;
+  keepAdded: number;
+  journalAdded: number;
+  positions: number;
+  // Items from the backup that aren't in this library (by URI or filename + capture time)
+  unmatchedTrash: string[];
+  unmatchedKeep: string[];
+  unmatchedJournal: number;
+};
+
+function isCancel(e: unknown) {
+  return isErrorWithCode(e) && e.code === errorCodes.OPERATION_CANCELED;
+}
+
+function describeAsset(a: { uri: string; filename?: string | null }): string {
+  return a.filename ?? a.uri;
+}
+
+export async function buildBackup(): Promise<BackupDoc> {
+  const [progress, trash, keep, journal, retentionDays, app] = await Promise.all([
+    listSavedPositions(),
+    getTrashEntries(),
+    getKeepEntries(),
+    readJournal(),
+    getRetentionDays(),
+    loadSettings(),
+  ]);
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    progress,
+    trash,
+    keep,
+    journal,
+    settings: { retentionDays, app },
+  };
+}
+
+/** Returns false if the user backed out of the save dialog. */
+export async function exportBackup(): Promise<boolean> {
+  const doc = await buildBackup();
+  const fileName = `gallery-swipe-backup-${new Date(doc.exportedAt).toISOString().slice(0, 10)}.json`;
+  const path = `${CachesDirectoryPath}/${fileName}`;
+  await writeFile(path, JSON.stringify(doc), "utf8");
+
+  try {
+    const [res] = await saveDocuments({
+      sourceUris: [encodeURI(`file://${path}`)],
+      mimeType: "application/json",
+      fileName,
+      copy: true,
+    });
+    if (res.error) throw new Error(res.error);
+    return true;
+  } catch (e) {
+    if (isCancel(e)) return false;
+    throw e;
+  } finally {
+    await unlink(path).catch(() => {});
+  }
+}
+
+/** Contents of the file the user picks, or null if they cancelled. */
+export async function pickBackupFile(): Promise<string | null> {
+  let picked;
+  try {
+    [picked] = await pick({ type: [types.json, types.plainText] });
+  } catch (e) {
+    if (isCancel(e)) return null;
+    throw e;
+  }
+
+  const [copy] = await keepLocalCopy({
+    files: [{ uri: picked.uri, fileName: picked.name ?? "backup.json" }],
+    destination: "cachesDirectory",
+  });
+  if (copy.status === "error") throw new Error(copy.copyError);
+
+  const path = decodeURI(copy.localUri.replace(/^file:\/\//, ""));
+  try {
+    return await readFile(path, "utf8");
+  } finally {
+    await unlink(path).catch(() => {});
+  }
+}
+
+/** One pass over the whole library (photos and videos) for matching. */
+async function indexLibrary(onProgress?: (scanned: number) => void): Promise<LibraryIndex> {
+  const assets: MediaAsset[] = [];
+  await walkLibrary(
+    LIBRARY_PAGE_SIZE,
+    ({ edges }) => {
+      for (const edge of edges) assets.push(assetFromNode(edge.node));
+      onProgress?.(assets.length);
+    },
+    { assetType: "All", include: ["filename"] }
+  );
+
+  return buildLibraryIndex(assets);
+}
+
+/**
+ * Merges a backup into this device: trash and keep lists are unioned, history entries we
+ * don't have yet are appended, positions and settings are overwritten.
+ */
+export async function importBackup(json: string, onProgress?: (scanned: number) => void): Promise<ImportReport> {
+  const doc = parseBackup(json);
+  const lib = await indexLibrary(onProgress);
+
+  const trash = remap(doc.trash, lib, entryAsset, (e, a): TrashEntry => ({ ...e, uri: a.uri, id: a.id ?? e.id }));
+  const keep = remap(doc.keep, lib, (k) => k, (k, a): KeepEntry => ({ ...k, ...a }));
+  // History of items we can't find is still history; keep it under the old URI.
+  const journal = remap(doc.journal, lib, (e) => e.asset, (e, a) => ({ ...e, asset: a }));
+
+  const [trashNow, keepNow] = await Promise.all([getTrashEntries(), getKeepEntries()]);
+  const trashUris = new Set(trashNow.map((e) => e.uri));
+  const keepUris = new Set(keepNow.map((e) => e.uri));
+  const newTrash = trash.matched.filter((e) => !trashUris.has(e.uri));
+  const newKeep = keep.matched.filter((e) => !keepUris.has(e.uri));
+
+  await setTrashEntries([...trashNow, ...newTrash]);
+  await setKeepEntries([...keepNow, ...newKeep]);
+  const remapped = new Map(journal.matched.map((e) => [e.id, e]));
+  const journalAdded = await importJournal(doc.journal.map((e) => remapped.get(e.id) ?? e));
+  for (const p of doc.progress) {
+    // The anchor in this library's terms (id, capture time), found like trash entries are
+    const at = p.anchor ? resolveAsset(p.anchor, lib) : null;
+    await restoreSavedPosition(p.scope, p.pos, anchorOf(at ?? undefined));
+  }
+  await setRetentionDays(doc.settings.retentionDays);
+  if (doc.settings.app) await updateSettings(doc.settings.app);
+
+  return {
+    trashAdded: newTrash.length,
+    keepAdded: newKeep.length,
+    journalAdded,
+    positions: doc.progress.length,
+    unmatchedTrash: trash.unmatched.map(describeAsset),
+    unmatchedKeep: keep.unmatched.map(describeAsset),
+    unmatchedJournal: journal.unmatched.length,
+  };
+}
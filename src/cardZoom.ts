@@ -0,0 +1,78 @@
+// cardZoom.ts
+//
+// Geometry for zooming the swipe card. The photo is scaled about the card's centre,
+// then offset; while it is zoomed in, drags pan it instead of deciding on it.
+
+export const MAX_SCALE = 4;
+export const DOUBLE_TAP_SCALE = 2.5;
+export const DOUBLE_TAP_MS = 280;
+// A pinch that ends below this snaps back to 1x, which turns swiping back on
+const SNAP_BACK_BELOW = 1.05;
+
+export type Zoom = { scale: number; x: number; y: number };
+
+export const NO_ZOOM: Zoom = { scale: 1, x: 0, y: 0 };
+
+export function isZoomed(z: Zoom): boolean {
+  return z.scale > 1;
+}
+
+function clamp(v: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, v));
+}
+
+/** Keeps the scale in range and the photo covering the card (no panning past its edges). */
+export function clampZoom(z: Zoom, width: number, height: number): Zoom {
+  const scale = clamp(z.scale, 1, MAX_SCALE);
+  const maxX = ((scale - 1) * width) / 2;
+  const maxY = ((scale - 1) * height) / 2;
+  return { scale, x: clamp(z.x, -maxX, maxX), y: clamp(z.y, -maxY, maxY) };
+}
+
+/**
+ * Zoom during a pinch that started at `start` with the fingers `startDistance` apart
+ * around `focus` (card coordinates). The part of the photo at `focus` stays put.
+ */
+export function pinchTo(
+  start: Zoom,
+  startDistance: number,
+  distance: number,
+  focus: { x: number; y: number },
+  width: number,
+  height: number
+): Zoom {
+  if (startDistance <= 0) return start;
+  const scale = clamp((start.scale * distance) / startDistance, 1, MAX_SCALE);
+  // The offset that keeps the photo point under `focus` there at the new scale
+  const ratio = scale / start.scale;
+  const fx = focus.x - width / 2;
+  const fy = focus.y - height / 2;
+  return clampZoom(
+    { scale, x: start.x * ratio + fx * (1 - ratio), y: start.y * ratio + fy * (1 - ratio) },
+    width,
+    height
+  );
+}
+
+/** Where the zoom rests once the fingers lift. */
+export function settleZoom(z: Zoom, width: number, height: number): Zoom {
+  return z.scale < SNAP_BACK_BELOW ? NO_ZOOM : clampZoom(z, width, height);
+}
+
+/** Double tap: zoom in with the tapped point kept under the finger, or back out to 1x. */
+export function toggleZoomAt(z: Zoom, point: { x: number; y: number }, width: number, height: number): Zoom {
+  if (isZoomed(z)) return NO_ZOOM;
+  const s = DOUBLE_TAP_SCALE;
+  return clampZoom({ scale: s, x: (width / 2 - point.x) * (s - 1), y: (height / 2 - point.y) * (s - 1) }, width, height);
+}
+
+/** Halfway between the first two fingers. The card fills the window, so page coordinates are card coordinates. */
+export function touchMidpoint(touches: readonly { pageX: number; pageY: number }[]): { x: number; y: number } {
+  if (touches.length < 2) return { x: touches[0]?.pageX ?? 0, y: touches[0]?.pageY ?? 0 };
+  return { x: (touches[0].pageX + touches[1].pageX) / 2, y: (touches[0].pageY + touches[1].pageY) / 2 };
+}
+
+export function touchDistance(touches: readonly { pageX: number; pageY: number }[]): number {
+  if (touches.length < 2) return 0;
+  return Math.hypot(touches[0].pageX - touches[1].pageX, touches[0].pageY - touches[1].pageY);
+}
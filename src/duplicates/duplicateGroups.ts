@@ -0,0 +1,100 @@
+// duplicateGroups.ts
+import type { MediaAsset } from "../mediaAsset";
+import { hammingDistance } from "./perceptualHash";
+
+// Hashes with this prefix are metadata fingerprints (no pixels available): exact matches only.
+export const META_HASH_PREFIX = "meta:";
+
+export type HashedAsset = { asset: MediaAsset; hash: string };
+
+export type DuplicateGroup = {
+  exact: boolean; // every member has the same hash
+  items: MediaAsset[];
+};
+
+export type GroupOptions = {
+  maxDistance?: number; // bits; 0 = exact only
+  windowMs?: number; // near-duplicates are only looked for among shots this close in time
+};
+
+const DEFAULT_MAX_DISTANCE = 6;
+const DEFAULT_WINDOW_MS = 10 * 60 * 1000;
+
+/**
+ * Exact duplicates are matched across the whole set. Near-duplicates are only compared
+ * within a capture-time window, which keeps this roughly linear on large libraries
+ * (bursts and retakes are taken moments apart anyway).
+ */
+export function groupDuplicates(items: HashedAsset[], options: GroupOptions = {}): DuplicateGroup[] {
+  const maxDistance = options.maxDistance ?? DEFAULT_MAX_DISTANCE;
+  const windowMs = options.windowMs ?? DEFAULT_WINDOW_MS;
+
+  // union-find over indexes
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent[rb] = ra;
+  };
+
+  const byHash = new Map<string, number>();
+  items.forEach((it, i) => {
+    const first = byHash.get(it.hash);
+    if (first === undefined) byHash.set(it.hash, i);
+    else union(first, i);
+  });
+
+  if (maxDistance > 0) {
+    const order = items
+      .map((_, i) => i)
+      .filter((i) => !items[i].hash.startsWith(META_HASH_PREFIX) && items[i].asset.capturedAt !== undefined)
+      .sort((a, b) => (items[a].asset.capturedAt ?? 0) - (items[b].asset.capturedAt ?? 0));
+
+    for (let k = 0; k < order.length; k++) {
+      const i = order[k];
+      const ti = items[i].asset.capturedAt ?? 0;
+      for (let j = k + 1; j < order.length; j++) {
+        const other = order[j];
+        if ((items[other].asset.capturedAt ?? 0) - ti > windowMs) break;
+        if (hammingDistance(items[i].hash, items[other].hash) <= maxDistance) union(i, other);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  items.forEach((_, i) => {
+    const root = find(i);
+    const g = groups.get(root);
+    if (g) g.push(i);
+    else groups.set(root, [i]);
+  });
+
+  const out: DuplicateGroup[] = [];
+  for (const members of groups.values()) {
+    if (members.length < 2) continue;
+    const first = items[members[0]].hash;
+    out.push({
+      exact: members.every((i) => items[i].hash === first),
+      items: members.map((i) => items[i].asset),
+    });
+  }
+  // biggest clean-up wins first
+  return out.sort((a, b) => b.items.length - a.items.length);
+}
+
+/** The member we suggest keeping: largest resolution, then largest file. */
+export function suggestKeeper(group: DuplicateGroup): MediaAsset {
+  const score = (a: MediaAsset) => [(a.width ?? 0) * (a.height ?? 0), a.fileSize ?? 0];
+  return group.items.reduce((best, a) => {
+    const [pa, sa] = score(a);
+    const [pb, sb] = score(best);
+    return pa > pb || (pa === pb && sa > sb) ? a : best;
+  });
+}
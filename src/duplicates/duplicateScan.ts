@@ -0,0 +1,142 @@
+// duplicateScan.ts
+import { Platform } from "react-native";
+import { CameraRoll } from "@react-native-camera-roll/camera-roll";
+import ImageResizer from "@bam.tech/react-native-image-resizer";
+import { CachesDirectoryPath, readFile, unlink } from "@dr.pogodin/react-native-fs";
+import { decode as decodeJpeg } from "jpeg-js";
+import { assetFromNode, MediaAsset } from "../mediaAsset";
+import { walkLibrary } from "../mediaLibrary";
+import { getKeepSet } from "../keepStore";
+import { getTrashSet } from "../trashStore";
+import { dHash, toGrayscale } from "./perceptualHash";
+import { DuplicateGroup, groupDuplicates, HashedAsset, META_HASH_PREFIX } from "./duplicateGroups";
+import { loadHashCache, saveHashCache } from "./hashCache";
+
+const SCAN_PAGE_SIZE = 200;
+const THUMB_SIZE = 32;
+
+export type ScanProgress = { scanned: number; hashed: number };
+
+const B64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+function base64ToBytes(b64: string): Uint8Array {
+  const clean = b64.replace(/[^A-Za-z0-9+/]/g, "");
+  const out = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buf = 0;
+  let bits = 0;
+  let o = 0;
+  for (let i = 0; i < clean.length; i++) {
+    buf = (buf << 6) | B64.indexOf(clean[i]);
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      out[o++] = (buf >> bits) & 0xff;
+    }
+  }
+  return out;
+}
+
+/**
+ * A tiny JPEG of the photo as base64. CameraRoll only has a thumbnail API on iOS, so on
+ * Android the photo is downscaled into the cache directory and read back.
+ */
+async function thumbnailBase64(asset: MediaAsset): Promise<string | null> {
+  if (Platform.OS === "ios") {
+    if (!asset.id) return null;
+    const thumb = await CameraRoll.getPhotoThumbnail(asset.id, {
+      allowNetworkAccess: false,
+      targetSize: { width: THUMB_SIZE, height: THUMB_SIZE },
+      quality: 0.5,
+    });
+    return thumb.thumbnailBase64;
+  }
+
+  const out = await ImageResizer.createResizedImage(asset.uri, THUMB_SIZE, THUMB_SIZE, "JPEG", 50, 0, CachesDirectoryPath, false, {
+    mode: "stretch",
+  });
+  try {
+    return await readFile(out.path, "base64");
+  } finally {
+    await unlink(out.path).catch(() => {});
+  }
+}
+
+/**
+ * Pixel hash from a tiny thumbnail. When none can be made (e.g. an iCloud-only asset or a
+ * file the decoder rejects) fall back to a metadata fingerprint, which only finds exact copies.
+ */
+async function hashAsset(asset: MediaAsset): Promise<string | null> {
+  try {
+    const b64 = await thumbnailBase64(asset);
+    if (b64) {
+      const img = decodeJpeg(base64ToBytes(b64), { useTArray: true, formatAsRGBA: true });
+      return dHash(toGrayscale(img.data, img.width, img.height), img.width, img.height);
+    }
+  } catch {
+    // fall through
+  }
+
+  if (asset.fileSize && asset.width && asset.height) {
+    return `${META_HASH_PREFIX}${asset.fileSize}:${asset.width}x${asset.height}`;
+  }
+  return null;
+}
+
+/**
+ * Walk the photo library, hashing anything not already cached, and group the results.
+ * Trashed and kept photos are left out. Returns null when cancelled.
+ */
+export async function scanForDuplicates(
+  onProgress: (p: ScanProgress) => void,
+  isCancelled: () => boolean
+): Promise<DuplicateGroup[] | null> {
+  const [cache, trash, keep] = await Promise.all([loadHashCache(), getTrashSet(), getKeepSet()]);
+  const seen = new Set<string>();
+  const hashed: HashedAsset[] = [];
+  let scanned = 0;
+  let computed = 0;
+  let cancelled = false;
+
+  // The cache is written once, when the walk ends for any reason, rather than after every page:
+  // re-serialising the whole map each time made a large first scan quadratic.
+  try {
+    await walkLibrary(
+      SCAN_PAGE_SIZE,
+      async ({ edges }) => {
+        for (const edge of edges) {
+          if (isCancelled()) {
+            cancelled = true;
+            return false;
+          }
+
+          const asset = assetFromNode(edge.node);
+          scanned++;
+          seen.add(asset.uri);
+
+          const cached = cache.get(asset.uri);
+          let hash = cached && cached.s === (asset.fileSize ?? null) ? cached.h : null;
+          if (!hash) {
+            hash = await hashAsset(asset);
+            computed++;
+            if (hash) cache.set(asset.uri, { h: hash, s: asset.fileSize ?? null });
+          }
+
+          if (hash && !trash.has(asset.uri) && !keep.has(asset.uri)) hashed.push({ asset, hash });
+        }
+
+        onProgress({ scanned, hashed: computed });
+      },
+      { assetType: "Photos", include: ["filename", "fileSize", "imageSize"] }
+    );
+    if (cancelled) return null;
+
+    // drop hashes for photos that no longer exist
+    for (const uri of [...cache.keys()]) {
+      if (!seen.has(uri)) cache.delete(uri);
+    }
+  } finally {
+    await saveHashCache(cache);
+  }
+
+  return groupDuplicates(hashed);
+}
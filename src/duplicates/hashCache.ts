@@ -0,0 +1,73 @@
+// hashCache.ts
+//
+// Perceptual hashes are expensive (one thumbnail decode each), so we remember them per URI.
+// An entry is reused while the file size is unchanged. A big library's cache outgrows what
+// one AsyncStorage value can hold on Android, so it's kept in fixed-size segments.
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+const PREFIX = "gallery_phash_cache_v2";
+const KEY_META = `${PREFIX}:meta`;
+const LEGACY_KEY = "gallery_phash_cache_v1"; // one value for the whole cache
+const SEGMENT_SIZE = 2000;
+
+export type HashCacheEntry = { h: string; s: number | null };
+export type HashCache = Map<string, HashCacheEntry>;
+
+const segmentKey = (n: number) => `${PREFIX}:${n}`;
+
+async function readSegmentCount(): Promise<number> {
+  const raw = await AsyncStorage.getItem(KEY_META);
+  if (!raw) return 0;
+  const meta: unknown = JSON.parse(raw);
+  const n = meta && typeof meta === "object" ? (meta as Record<string, unknown>).segments : undefined;
+  return typeof n === "number" && Number.isInteger(n) && n > 0 ? n : 0;
+}
+
+function parseSegment(raw: string | null, out: HashCache) {
+  if (!raw) return;
+  const obj: unknown = JSON.parse(raw);
+  if (!obj || typeof obj !== "object") return;
+  for (const [uri, v] of Object.entries(obj as Record<string, unknown>)) {
+    if (!v || typeof v !== "object") continue;
+    const e = v as Record<string, unknown>;
+    if (typeof e.h === "string") out.set(uri, { h: e.h, s: typeof e.s === "number" ? e.s : null });
+  }
+}
+
+/** The saved cache; anything unreadable just means those photos get hashed again. */
+export async function loadHashCache(): Promise<HashCache> {
+  const out: HashCache = new Map();
+  try {
+    const count = await readSegmentCount();
+    const rows = await AsyncStorage.multiGet(Array.from({ length: count }, (_, n) => segmentKey(n)));
+    for (const [, raw] of rows) {
+      try {
+        parseSegment(raw, out);
+      } catch {
+        // skip the damaged segment
+      }
+    }
+  } catch {
+    return new Map();
+  }
+  return out;
+}
+
+export async function saveHashCache(cache: HashCache) {
+  const entries = [...cache];
+  const segments: [string, string][] = [];
+  for (let i = 0; i < entries.length; i += SEGMENT_SIZE) {
+    const part = Object.fromEntries(entries.slice(i, i + SEGMENT_SIZE));
+    segments.push([segmentKey(segments.length), JSON.stringify(part)]);
+  }
+
+  const before = await readSegmentCount().catch(() => 0);
+  await AsyncStorage.multiSet([...segments, [KEY_META, JSON.stringify({ segments: segments.length })]]);
+  const stale = Array.from({ length: Math.max(0, before - segments.length) }, (_, k) => segmentKey(segments.length + k));
+  await AsyncStorage.multiRemove([...stale, LEGACY_KEY]);
+}
+
+export async function clearHashCache() {
+  const count = await readSegmentCount().catch(() => 0);
+  await AsyncStorage.multiRemove([KEY_META, LEGACY_KEY, ...Array.from({ length: count }, (_, n) => segmentKey(n))]);
+}
@@ -0,0 +1,67 @@
+// perceptualHash.ts
+//
+// dHash ("difference hash"): shrink to 9x8 grayscale and record, per row, whether each
+// pixel is brighter than its right-hand neighbour. 64 bits, stored as 16 hex chars.
+// Visually similar images end up a few bits apart; identical ones collide.
+
+const HASH_W = 9;
+const HASH_H = 8;
+
+/** RGBA bytes -> luma (0..255), one byte per pixel. */
+export function toGrayscale(rgba: Uint8Array, width: number, height: number): Uint8Array {
+  const out = new Uint8Array(width * height);
+  for (let i = 0; i < out.length; i++) {
+    const o = i * 4;
+    out[i] = Math.round(0.299 * rgba[o] + 0.587 * rgba[o + 1] + 0.114 * rgba[o + 2]);
+  }
+  return out;
+}
+
+/** Box-filter downscale of a grayscale image. */
+function shrink(gray: Uint8Array, width: number, height: number, tw: number, th: number): Float64Array {
+  const out = new Float64Array(tw * th);
+  for (let ty = 0; ty < th; ty++) {
+    const y0 = Math.floor((ty * height) / th);
+    const y1 = Math.max(y0 + 1, Math.floor(((ty + 1) * height) / th));
+    for (let tx = 0; tx < tw; tx++) {
+      const x0 = Math.floor((tx * width) / tw);
+      const x1 = Math.max(x0 + 1, Math.floor(((tx + 1) * width) / tw));
+      let sum = 0;
+      let n = 0;
+      for (let y = y0; y < y1 && y < height; y++) {
+        for (let x = x0; x < x1 && x < width; x++) {
+          sum += gray[y * width + x];
+          n++;
+        }
+      }
+      out[ty * tw + tx] = n > 0 ? sum / n : 0;
+    }
+  }
+  return out;
+}
+
+export function dHash(gray: Uint8Array, width: number, height: number): string {
+  const px = shrink(gray, width, height, HASH_W, HASH_H);
+  let hex = "";
+  for (let y = 0; y < HASH_H; y++) {
+    // 8 comparisons per row = 2 hex digits
+    let row = 0;
+    for (let x = 0; x < HASH_W - 1; x++) {
+      row = (row << 1) | (px[y * HASH_W + x] < px[y * HASH_W + x + 1] ? 1 : 0);
+    }
+    hex += row.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+const POPCOUNT = Array.from({ length: 16 }, (_, n) => (n & 1) + ((n >> 1) & 1) + ((n >> 2) & 1) + ((n >> 3) & 1));
+
+/** Number of differing bits between two hex hashes of equal length. */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+  let d = 0;
+  for (let i = 0; i < a.length; i++) {
+    d += POPCOUNT[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+  }
+  return d;
+}
@@ -0,0 +1,16 @@
+// resolveDuplicates.ts
+//
+// Resolving a group trashes every copy but the keeper. Like swipe and grid decisions
+// the trashing is journaled (as one group), so it shows up in History and the stats
+// and a trash rebuild from the journal brings it back.
+import type { MediaAsset } from "../mediaAsset";
+import { addToTrash } from "../trashStore";
+import { appendJournalGroup } from "../actionJournal";
+
+/** Returns the copies that went to the trash. */
+export async function trashDuplicates(items: MediaAsset[], keeperUri: string): Promise<MediaAsset[]> {
+  const rejected = items.filter((a) => a.uri !== keeperUri);
+  for (const a of rejected) await addToTrash(a);
+  if (rejected.length > 0) await appendJournalGroup(rejected.map((asset) => ({ kind: "trash" as const, asset })));
+  return rejected;
+}
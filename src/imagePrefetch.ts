@@ -0,0 +1,76 @@
+// imagePrefetch.ts
+//
+// Warms the native image cache for the next few cards, so a swipe lands on a loaded
+// photo instead of a blank frame. Only a window of upcoming URIs is tracked: anything
+// that leaves it is forgotten, and its request aborted where the platform allows
+// (Android). What stays decoded in memory is up to the native caches, which evict
+// under pressure; we just never ask for more than the window.
+import { Image } from "react-native";
+
+export type PrefetchDeps = {
+  /** Resolves when the image is cached; reports a request id if it can be aborted. */
+  prefetch(uri: string, onRequestId: (id: number) => void): Promise<boolean>;
+  abort(requestId: number): void;
+};
+
+// The typings only declare the URL, but Android passes a request id to a second argument.
+const prefetchWithId = Image.prefetch as (url: string, callback?: (requestId: number) => void) => Promise<boolean>;
+
+const NATIVE: PrefetchDeps = {
+  prefetch: (uri, onRequestId) => prefetchWithId(uri, onRequestId),
+  abort: (id) => Image.abortPrefetch?.(id),
+};
+
+// Full-size photos are big; a couple at a time keeps the current card's own load fast.
+const CONCURRENCY = 2;
+
+export type Prefetcher = {
+  /** Warm these URIs, most urgent first. Everything else is dropped. */
+  setWindow(uris: string[]): void;
+  /** Whether a URI in the window has finished (successfully or not). */
+  isDone(uri: string): boolean;
+};
+
+export function createPrefetcher(deps: PrefetchDeps = NATIVE): Prefetcher {
+  let wanted: string[] = [];
+  const done = new Set<string>();
+  // A token per request, so a late answer for an aborted request is ignored
+  const inFlight = new Map<string, { token: object; requestId: number | null }>();
+
+  function pump() {
+    while (inFlight.size < CONCURRENCY) {
+      const uri = wanted.find((u) => !done.has(u) && !inFlight.has(u));
+      if (!uri) return;
+      const req = { token: {}, requestId: null as number | null };
+      inFlight.set(uri, req);
+      deps
+        .prefetch(uri, (id) => {
+          req.requestId = id;
+        })
+        .catch(() => false)
+        .then(() => {
+          if (inFlight.get(uri)?.token !== req.token) return;
+          inFlight.delete(uri);
+          // Failed ones aren't retried; the card itself will try (and report a missing item)
+          done.add(uri);
+          pump();
+        });
+    }
+  }
+
+  return {
+    setWindow(uris) {
+      wanted = uris;
+      const keep = new Set(uris);
+      for (const uri of done) if (!keep.has(uri)) done.delete(uri);
+      for (const [uri, req] of inFlight) {
+        if (keep.has(uri)) continue;
+        inFlight.delete(uri);
+        if (req.requestId !== null) deps.abort(req.requestId);
+      }
+      pump();
+    },
+
+    isDone: (uri) => done.has(uri),
+  };
+}
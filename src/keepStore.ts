@@ -0,0 +1,76 @@
+// keepStore.ts
+//
+// Photos the user explicitly decided to keep. Like the trash, these are hidden
+// from the swipe queue, so they don't come back for review after a restart.
+import { MediaAsset, parseAsset } from "./mediaAsset";
+import { createLock, KEYS, readDoc, writeDocs } from "./storage";
+import { liveDecisions, readJournal } from "./actionJournal";
+
+export type KeepEntry = MediaAsset & {
+  keptAt: number; // ms timestamp
+};
+
+export function parseKeepEntry(x: unknown): KeepEntry | null {
+  const asset = parseAsset(x);
+  if (!asset) return null;
+  const o = typeof x === "object" ? (x as Record<string, unknown>) : {};
+  const keptAt = typeof o.keptAt === "number" && Number.isFinite(o.keptAt) ? o.keptAt : 0;
+  return { ...asset, keptAt };
+}
+
+function parseKeepList(data: unknown): KeepEntry[] | null {
+  if (!Array.isArray(data)) return null;
+  return data.map(parseKeepEntry).filter((e): e is KeepEntry => e !== null);
+}
+
+// Un-keeping isn't journaled, so a rebuild can bring back a few kept items; that only
+// hides them from review, which is the safe side to err on.
+async function rebuildFromJournal(): Promise<KeepEntry[]> {
+  const { keep } = liveDecisions(await readJournal());
+  const entries = keep.map((e) => ({ ...e.asset, keptAt: e.at }));
+  await writeDocs([[KEYS.keep, entries]]);
+  return entries;
+}
+
+async function readEntries(): Promise<KeepEntry[]> {
+  const res = await readDoc(KEYS.keep, parseKeepList);
+  if (res.status === "ok") return res.value;
+  if (res.status === "missing") return [];
+  return rebuildFromJournal();
+}
+
+const locked = createLock();
+
+function update(change: (entries: KeepEntry[]) => KeepEntry[] | null) {
+  return locked(async () => {
+    const next = change(await readEntries());
+    if (next) await writeDocs([[KEYS.keep, next]]);
+  });
+}
+
+export function getKeepEntries(): Promise<KeepEntry[]> {
+  return locked(readEntries);
+}
+
+export function setKeepEntries(entries: KeepEntry[]) {
+  return update(() => entries);
+}
+
+export async function getKeepSet(): Promise<Set<string>> {
+  const entries = await getKeepEntries();
+  return new Set(entries.map((e) => e.uri));
+}
+
+export function addToKeep(asset: MediaAsset) {
+  return update((entries) =>
+    entries.some((e) => e.uri === asset.uri) ? null : [...entries, { ...asset, keptAt: Date.now() }]
+  );
+}
+
+export function removeFromKeep(uri: string) {
+  return update((entries) => entries.filter((e) => e.uri !== uri));
+}
+
+export function clearKeep() {
+  return update(() => []);
+}
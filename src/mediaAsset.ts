@@ -0,0 +1,124 @@
+// mediaAsset.ts
+import type { PhotoIdentifier } from "@react-native-camera-roll/camera-roll";
+
+export type MediaKind = "photo" | "video";
+
+export type GeoLocation = { latitude: number; longitude: number };
+
+/**
+ * What we keep about a library item once it leaves CameraRoll.
+ * Everything except `uri` is optional: older persisted data only has the URI.
+ */
+export type MediaAsset = {
+  uri: string;
+  id?: string;
+  kind?: MediaKind; // missing = photo (older persisted data)
+  duration?: number; // seconds, videos only
+  capturedAt?: number; // ms timestamp
+  filename?: string | null;
+  fileSize?: number | null; // bytes
+  width?: number;
+  height?: number;
+  albums?: string[]; // Android: the folder; iOS: every album it's in
+  location?: GeoLocation | null;
+};
+
+// Android reports a mime type ("video/mp4"), iOS just "video"
+function kindOf(type: string | undefined): MediaKind {
+  return type?.startsWith("video") ? "video" : "photo";
+}
+
+export function assetFromNode(node: PhotoIdentifier["node"]): MediaAsset {
+  const kind = kindOf(node.type);
+  return {
+    uri: node.image.uri,
+    id: node.id,
+    kind,
+    duration: kind === "video" ? node.image.playableDuration ?? undefined : undefined,
+    // CameraRoll reports seconds
+    capturedAt: node.timestamp ? Math.round(node.timestamp * 1000) : undefined,
+    filename: node.image.filename ?? null,
+    fileSize: node.image.fileSize ?? null,
+    width: node.image.width,
+    height: node.image.height,
+    albums: node.group_name?.filter((g) => typeof g === "string" && g.length > 0),
+    location: parseLocation(node.location),
+  };
+}
+
+function parseLocation(x: unknown): GeoLocation | null {
+  if (!x || typeof x !== "object") return null;
+  const { latitude, longitude } = x as Record<string, unknown>;
+  if (typeof latitude !== "number" || typeof longitude !== "number") return null;
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  // Some devices report 0,0 for "unknown"
+  if (latitude === 0 && longitude === 0) return null;
+  return { latitude, longitude };
+}
+
+/** Accepts a persisted asset, or a bare URI string from older versions. */
+export function parseAsset(x: unknown): MediaAsset | null {
+  if (typeof x === "string") return x.length > 0 ? { uri: x } : null;
+  if (!x || typeof x !== "object") return null;
+  const o = x as Record<string, unknown>;
+  if (typeof o.uri !== "string" || o.uri.length === 0) return null;
+
+  const num = (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? v : undefined);
+  return {
+    uri: o.uri,
+    id: typeof o.id === "string" ? o.id : undefined,
+    kind: o.kind === "video" ? "video" : "photo",
+    duration: num(o.duration),
+    capturedAt: num(o.capturedAt),
+    filename: typeof o.filename === "string" ? o.filename : null,
+    fileSize: num(o.fileSize) ?? null,
+    width: num(o.width),
+    height: num(o.height),
+    albums: Array.isArray(o.albums) ? o.albums.filter((g): g is string => typeof g === "string") : undefined,
+    location: parseLocation(o.location),
+  };
+}
+
+/** 75 -> "1:15", 3725 -> "1:02:05" */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const sec = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${sec}` : `${m}:${sec}`;
+}
+
+/** { latitude: 47.37689, longitude: -8.5417 } -> "47.37689° N, 8.54170° W" */
+export function formatLocation({ latitude, longitude }: GeoLocation): string {
+  const lat = `${Math.abs(latitude).toFixed(5)}° ${latitude < 0 ? "S" : "N"}`;
+  const lon = `${Math.abs(longitude).toFixed(5)}° ${longitude < 0 ? "W" : "E"}`;
+  return `${lat}, ${lon}`;
+}
+
+/** Label/value rows for the info panel; unknown fields are left out. */
+export function assetDetails(asset: MediaAsset): { label: string; value: string }[] {
+  const rows: { label: string; value: string }[] = [];
+  if (asset.capturedAt) rows.push({ label: "Taken", value: new Date(asset.capturedAt).toLocaleString() });
+  if (asset.filename) rows.push({ label: "File", value: asset.filename });
+  if (asset.width && asset.height) rows.push({ label: "Dimensions", value: `${asset.width} × ${asset.height}` });
+  if (asset.fileSize) rows.push({ label: "Size", value: formatBytes(asset.fileSize) });
+  if (asset.kind === "video" && asset.duration) rows.push({ label: "Length", value: formatDuration(asset.duration) });
+  if (asset.albums && asset.albums.length > 0) {
+    rows.push({ label: asset.albums.length === 1 ? "Album" : "Albums", value: asset.albums.join(", ") });
+  }
+  if (asset.location) rows.push({ label: "Location", value: formatLocation(asset.location) });
+  return rows;
+}
+
+const BYTE_UNITS = ["B", "KB", "MB", "GB", "TB"];
+
+/** 1536 -> "1.5 KB", 3.2e9 -> "3.0 GB" */
+export function formatBytes(bytes: number): string {
+  let n = Math.max(0, bytes);
+  let unit = 0;
+  while (n >= 1024 && unit < BYTE_UNITS.length - 1) {
+    n /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? n : n.toFixed(n < 10 ? 1 : 0)} ${BYTE_UNITS[unit]}`;
+}
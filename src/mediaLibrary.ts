@@ -0,0 +1,31 @@
+// mediaLibrary.ts
+//
+// CameraRoll can't look an asset up by URI or id, and only pages newest → oldest by
+// cursor, so anything that needs to find, count or index items walks the library.
+import { CameraRoll, GetPhotosParams, PhotoIdentifier } from "@react-native-camera-roll/camera-roll";
+
+export type LibraryPage = {
+  edges: PhotoIdentifier[];
+  after?: string; // the cursor this page was requested with (undefined = very first)
+  next?: string; // the cursor for the following page; undefined on the last one
+};
+
+/**
+ * Pages through the library with `params`, handing every page to `visit` until it
+ * returns false or the library runs out. `from` carries on from an earlier walk's cursor.
+ */
+export async function walkLibrary(
+  pageSize: number,
+  visit: (page: LibraryPage) => boolean | void | Promise<boolean | void>,
+  params: Omit<GetPhotosParams, "first" | "after"> = {},
+  from?: string
+): Promise<void> {
+  let after = from;
+
+  while (true) {
+    const res = await CameraRoll.getPhotos({ ...params, first: pageSize, after });
+    const next = res.page_info?.has_next_page ? res.page_info.end_cursor || undefined : undefined;
+    if ((await visit({ edges: res.edges ?? [], after, next })) === false || !next) return;
+    after = next;
+  }
+}
@@ -1,4 +1,4 @@
-import { Platform } from "react-native";
+import { Alert, Platform } from "react-native";
 import {
   check,
   request,
@@ -28,7 +28,11 @@ async function requestOne(p: Permission): Promise<PermissionResult> {
   return { granted: false, canAskAgain };
 }
 
-export async function ensureGalleryPermissions(): Promise<PermissionResult> {
+type PermissionOptions = {
+  videos?: boolean; // also request video access (Android 13+ splits it out)
+};
+
+export async function ensureGalleryPermissions(opts: PermissionOptions = {}): Promise<PermissionResult> {
   if (Platform.OS === "ios") {
     // Read access
     const readRes = await requestOne(PERMISSIONS.IOS.PHOTO_LIBRARY);
@@ -48,9 +52,10 @@ export async function ensureGalleryPermissions(): Promise<PermissionResult> {
     const img = await requestOne(PERMISSIONS.ANDROID.READ_MEDIA_IMAGES);
     if (!img.granted) return img;
 
-    // optional: videos too (safe to request if you’ll show videos)
-    // const vid = await requestOne(PERMISSIONS.ANDROID.READ_MEDIA_VIDEO);
-    // if (!vid.granted) return vid;
+    if (opts.videos) {
+      const vid = await requestOne(PERMISSIONS.ANDROID.READ_MEDIA_VIDEO);
+      if (!vid.granted) return vid;
+    }
 
     return { granted: true };
   }
@@ -64,4 +69,28 @@ export async function ensureGalleryPermissions(): Promise<PermissionResult> {
 
 export async function goToAppSettings() {
   await openSettings();
+}
+
+/**
+ * ensureGalleryPermissions, explaining a refusal to the user (with a way to Settings
+ * when it's blocked). Resolves to whether we can go on.
+ */
+export async function ensureLibraryPermission(opts: PermissionOptions = {}): Promise<boolean> {
+  const res = await ensureGalleryPermissions(opts);
+  if (res.granted) return true;
+
+  const [kind, purpose] = opts.videos ? ["Video", "include videos"] : ["Photo", "continue"];
+  Alert.alert(
+    "Permission needed",
+    res.canAskAgain
+      ? `We need ${kind.toLowerCase()} access to ${purpose}.`
+      : `${kind} access is blocked. Enable it in Settings to ${purpose}.`,
+    res.canAskAgain
+      ? [{ text: "OK" }]
+      : [
+          { text: "Cancel", style: "cancel" },
+          { text: "Open Settings", onPress: goToAppSettings },
+        ]
+  );
+  return false;
 }
\ No newline at end of file
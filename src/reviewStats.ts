@@ -0,0 +1,97 @@
+// reviewStats.ts
+//
+// Numbers for the Stats screen, derived from the action journal so they can't drift
+// from what actually happened. Undone decisions don't count.
+import { JournalEntry, undoneIds } from "./actionJournal";
+
+export type StatsPeriod = "day" | "week";
+
+export type StatsCounts = {
+  reviewed: number; // skip + trash + keep
+  trashed: number;
+  kept: number;
+  deleted: number;
+  bytesFreed: number; // sum of known file sizes of deleted items
+  unknownSizes: number; // deleted items without a recorded size
+};
+
+export type StatsBucket = StatsCounts & { start: number };
+
+export type ReviewStats = {
+  totals: StatsCounts;
+  buckets: StatsBucket[]; // newest first, only periods with activity
+  activeMs: number; // time spent reviewing, idle gaps excluded
+  perMinute: number | null;
+};
+
+// A pause longer than this ends a review sitting; it doesn't count as review time.
+const SESSION_GAP_MS = 5 * 60 * 1000;
+
+function emptyCounts(): StatsCounts {
+  return { reviewed: 0, trashed: 0, kept: 0, deleted: 0, bytesFreed: 0, unknownSizes: 0 };
+}
+
+/** Local midnight of the day (or Monday of the week) containing `ms`. */
+export function periodStart(ms: number, period: StatsPeriod): number {
+  const d = new Date(ms);
+  d.setHours(0, 0, 0, 0);
+  if (period === "week") d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d.getTime();
+}
+
+function add(c: StatsCounts, e: JournalEntry) {
+  switch (e.kind) {
+    case "skip":
+      c.reviewed++;
+      break;
+    case "trash":
+      c.reviewed++;
+      c.trashed++;
+      break;
+    case "keep":
+      c.reviewed++;
+      c.kept++;
+      break;
+    case "delete":
+      c.deleted++;
+      if (e.asset.fileSize) c.bytesFreed += e.asset.fileSize;
+      else c.unknownSizes++;
+      break;
+  }
+}
+
+export function computeStats(entries: JournalEntry[], period: StatsPeriod): ReviewStats {
+  const undone = undoneIds(entries);
+  const totals = emptyCounts();
+  const byStart = new Map<number, StatsBucket>();
+  const swipeTimes: number[] = [];
+
+  for (const e of entries) {
+    if (e.kind === "undo" || e.kind === "recover" || undone.has(e.id)) continue;
+    add(totals, e);
+
+    const start = periodStart(e.at, period);
+    let bucket = byStart.get(start);
+    if (!bucket) {
+      bucket = { start, ...emptyCounts() };
+      byStart.set(start, bucket);
+    }
+    add(bucket, e);
+
+    if (e.kind === "skip" || e.kind === "trash" || e.kind === "keep") swipeTimes.push(e.at);
+  }
+
+  swipeTimes.sort((a, b) => a - b);
+  let activeMs = 0;
+  for (let i = 1; i < swipeTimes.length; i++) {
+    const gap = swipeTimes[i] - swipeTimes[i - 1];
+    if (gap <= SESSION_GAP_MS) activeMs += gap;
+  }
+
+  return {
+    totals,
+    buckets: [...byStart.values()].sort((a, b) => b.start - a.start),
+    activeMs,
+    perMinute: activeMs > 0 ? totals.reviewed / (activeMs / 60000) : null,
+  };
+}
@@ -0,0 +1,231 @@
+import * as React from "react";
+import { ActivityIndicator, Alert, FlatList, Pressable, StyleSheet, View } from "react-native";
+import { SegmentedButtons, Switch, Text, TextInput, useTheme } from "react-native-paper";
+import { CameraRoll, Album } from "@react-native-camera-roll/camera-roll";
+import { NativeStackScreenProps } from "@react-navigation/native-stack";
+import { RootStackParamList } from "../../App";
+import { includesVideos, parsePeriod, scopeTitle, SessionMedia, SessionScope } from "../session/sessionScope";
+import { cachedTotal } from "../session/asyncSessionStorage";
+import { ensureLibraryPermission } from "../permissions/galleryPermissions";
+
+type Props = NativeStackScreenProps<RootStackParamList, "Albums">;
+
+// null = the whole camera roll
+type Row = { album: string | null; count: number | null };
+
+type Period = { start: number; end: number };
+type Filters = { from: Period | null; to: Period | null; oldestFirst: boolean; media: SessionMedia };
+
+function scopeFor(album: string | null, { from, to, oldestFirst, media }: Filters): SessionScope {
+  const scope: SessionScope = {};
+  if (album) scope.album = album;
+  // CameraRoll's fromTime is exclusive
+  if (from) scope.fromTime = from.start - 1;
+  if (to) scope.toTime = to.end;
+  if (oldestFirst) scope.order = "oldest";
+  if (media !== "photos") scope.media = media;
+  return scope;
+}
+
+export default function AlbumPickerScreen({ navigation }: Props) {
+  const theme = useTheme();
+  const [rows, setRows] = React.useState<Row[] | null>(null);
+  const [err, setErr] = React.useState<string | null>(null);
+
+  // Session filters
+  const [fromText, setFromText] = React.useState("");
+  const [toText, setToText] = React.useState("");
+  const [oldestFirst, setOldestFirst] = React.useState(false);
+  const [media, setMedia] = React.useState<SessionMedia>("photos");
+
+  // Totals counted by earlier sessions under the current filters, keyed by album ("" = all)
+  const [filteredCounts, setFilteredCounts] = React.useState<Map<string, number>>(new Map());
+  React.useEffect(() => {
+    if (!rows) return;
+    const filters: Filters = {
+      from: fromText.trim() ? parsePeriod(fromText) : null,
+      to: toText.trim() ? parsePeriod(toText) : null,
+      oldestFirst,
+      media,
+    };
+    let cancelled = false;
+    (async () => {
+      const found = new Map<string, number>();
+      for (const row of rows) {
+        const cached = await cachedTotal(scopeFor(row.album, filters)).catch(() => null);
+        if (cached) found.set(row.album ?? "", cached.total);
+      }
+      if (!cancelled) setFilteredCounts(found);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [rows, fromText, toText, oldestFirst, media]);
+
+  React.useEffect(() => {
+    (async () => {
+      try {
+        const albums: Album[] = await CameraRoll.getAlbums({ assetType: "All", albumType: "All" });
+        const sorted = [...albums].sort((a, b) => b.count - a.count);
+        setRows([
+          { album: null, count: null },
+          ...sorted.map((a) => ({ album: a.title, count: a.count })),
+        ]);
+      } catch (e: any) {
+        setErr(e?.message ?? "Failed to load albums");
+      }
+    })();
+  }, []);
+
+  const open = async (row: Row) => {
+    const from = fromText.trim() ? parsePeriod(fromText) : null;
+    const to = toText.trim() ? parsePeriod(toText) : null;
+    if ((fromText.trim() && !from) || (toText.trim() && !to)) {
+      Alert.alert("Invalid date", "Use a year, year-month or full date (e.g. 2019, 2019-06, 2019-06-15).", [
+        { text: "OK" },
+      ]);
+      return;
+    }
+    if (from && to && from.start > to.end) {
+      Alert.alert("Invalid range", "The start date is after the end date.", [{ text: "OK" }]);
+      return;
+    }
+
+    const scope = scopeFor(row.album, { from, to, oldestFirst, media });
+
+    if (includesVideos(scope) && !(await ensureLibraryPermission({ videos: true }))) return;
+
+    navigation.navigate("GallerySwipe", Object.keys(scope).length > 0 ? scope : undefined);
+  };
+
+  const filters = (
+    <View style={[styles.filters, { backgroundColor: theme.colors.surface, borderColor: theme.colors.outline }]}>
+      <SegmentedButtons
+        value={media}
+        onValueChange={(v) => setMedia(v as SessionMedia)}
+        buttons={[
+          { value: "photos", label: "Photos" },
+          { value: "videos", label: "Videos" },
+          { value: "all", label: "Both" },
+        ]}
+      />
+      <Text variant="titleSmall" style={{ color: theme.colors.onSurface }}>
+        Capture date (optional)
+      </Text>
+      <View style={styles.dateRow}>
+        <TextInput
+          mode="outlined"
+          dense
+          label="From"
+          placeholder="2019"
+          value={fromText}
+          onChangeText={setFromText}
+          style={styles.dateInput}
+        />
+        <TextInput
+          mode="outlined"
+          dense
+          label="To"
+          placeholder="2019-12"
+          value={toText}
+          onChangeText={setToText}
+          style={styles.dateInput}
+        />
+      </View>
+      <View style={styles.switchRow}>
+        <Text variant="bodyMedium" style={{ color: theme.colors.onSurface }}>
+          Oldest first
+        </Text>
+        <Switch value={oldestFirst} onValueChange={setOldestFirst} />
+      </View>
+    </View>
+  );
+
+  if (err) {
+    return (
+      <View style={styles.center}>
+        <Text style={{ color: theme.colors.onSurface }}>{err}</Text>
+      </View>
+    );
+  }
+
+  if (!rows) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      data={rows}
+      keyExtractor={(r) => r.album ?? ""}
+      contentContainerStyle={styles.list}
+      ListHeaderComponent={filters}
+      renderItem={({ item }) => {
+        // The album's own count covers every kind and date; a session's total matches the filters
+        const count = filteredCounts.get(item.album ?? "") ?? item.count;
+        const title = scopeTitle({ album: item.album ?? undefined, media });
+        return (
+          <Pressable
+            onPress={() => open(item)}
+            accessibilityRole="button"
+            accessibilityLabel={count !== null ? `${title}, ${count} items` : title}
+            style={[styles.row, { backgroundColor: theme.colors.surface, borderColor: theme.colors.outline }]}
+          >
+            <Text variant="titleMedium" style={{ color: theme.colors.onSurface }}>
+              {title}
+            </Text>
+            {count !== null ? (
+              <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                {count}
+              </Text>
+            ) : null}
+          </Pressable>
+        );
+      }}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  center: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+  },
+  list: {
+    padding: 12,
+    gap: 8,
+  },
+  filters: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    gap: 8,
+    marginBottom: 8,
+  },
+  dateRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  dateInput: {
+    flex: 1,
+  },
+  switchRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+});
@@ -0,0 +1,142 @@
+import * as React from "react";
+import { View, Text as RNText, Pressable, Alert, ScrollView } from "react-native";
+import { exportBackup, importBackup, ImportReport, pickBackupFile } from "../backup/backupIO";
+import { parseBackup } from "../backup/backupFormat";
+import { ensureGalleryPermissions } from "../permissions/galleryPermissions";
+
+const MAX_LISTED = 20;
+
+function listNames(names: string[]): string {
+  const shown = names.slice(0, MAX_LISTED).join(", ");
+  return names.length > MAX_LISTED ? `${shown} and ${names.length - MAX_LISTED} more` : shown;
+}
+
+export default function BackupScreen() {
+  const [busy, setBusy] = React.useState<string | null>(null);
+  const [report, setReport] = React.useState<ImportReport | null>(null);
+
+  const onExport = React.useCallback(async () => {
+    setBusy("Exporting…");
+    try {
+      const saved = await exportBackup();
+      if (saved) Alert.alert("Backup saved", "Keep the file somewhere safe, e.g. cloud storage.");
+    } catch (e: any) {
+      Alert.alert("Export failed", e?.message ?? "Could not write the backup.");
+    } finally {
+      setBusy(null);
+    }
+  }, []);
+
+  const runImport = React.useCallback(async (json: string) => {
+    setBusy("Matching photos…");
+    try {
+      // Trash and history can include videos; without video access they just won't match.
+      await ensureGalleryPermissions({ videos: true });
+      setReport(await importBackup(json, (n) => setBusy(`Matching photos… ${n} scanned`)));
+    } catch (e: any) {
+      Alert.alert("Import failed", e?.message ?? "Could not restore the backup.");
+    } finally {
+      setBusy(null);
+    }
+  }, []);
+
+  const onImport = React.useCallback(async () => {
+    setReport(null);
+    let json: string | null;
+    let exportedAt: number;
+    try {
+      json = await pickBackupFile();
+      if (json === null) return;
+      exportedAt = parseBackup(json).exportedAt;
+    } catch (e: any) {
+      Alert.alert("Import failed", e?.message ?? "Could not read the file.");
+      return;
+    }
+
+    const content = json;
+    Alert.alert(
+      "Restore backup?",
+      `From ${exportedAt ? new Date(exportedAt).toLocaleString() : "an unknown date"}. Trash, kept photos and history are merged with what's here; session positions and settings are replaced.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Restore", onPress: () => void runImport(content) },
+      ]
+    );
+  }, [runImport]);
+
+  const buttonStyle = {
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: "rgba(255,255,255,0.1)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.2)",
+    alignItems: "center" as const,
+  };
+
+  return (
+    <ScrollView style={{ flex: 1, backgroundColor: "black" }} contentContainerStyle={{ padding: 12, gap: 12 }}>
+      <RNText style={{ color: "rgba(255,255,255,0.8)" }}>
+        A backup holds your session positions, trash, kept photos, history and settings. Photos themselves are not
+        included.
+      </RNText>
+
+      <Pressable
+        onPress={onExport}
+        disabled={!!busy}
+        accessibilityRole="button"
+        accessibilityLabel="Export backup"
+        accessibilityState={{ disabled: !!busy }}
+        style={buttonStyle}
+      >
+        <RNText style={{ color: "white" }}>Export backup</RNText>
+      </Pressable>
+
+      <Pressable
+        onPress={onImport}
+        disabled={!!busy}
+        accessibilityRole="button"
+        accessibilityLabel="Import backup"
+        accessibilityState={{ disabled: !!busy }}
+        style={buttonStyle}
+      >
+        <RNText style={{ color: "white" }}>Import backup</RNText>
+      </Pressable>
+
+      {busy ? (
+        <RNText style={{ color: "rgba(255,255,255,0.7)" }} accessibilityLiveRegion="polite">
+          {busy}
+        </RNText>
+      ) : null}
+
+      {report ? (
+        <View style={{ padding: 12, borderRadius: 12, backgroundColor: "rgba(255,255,255,0.08)", gap: 6 }}>
+          <RNText style={{ color: "white", fontSize: 16 }}>Restored</RNText>
+          <RNText style={{ color: "rgba(255,255,255,0.8)" }}>
+            {report.trashAdded} trashed • {report.keepAdded} kept • {report.journalAdded} history entries •{" "}
+            {report.positions} session position{report.positions === 1 ? "" : "s"}
+          </RNText>
+
+          {report.unmatchedTrash.length > 0 ? (
+            <RNText style={{ color: "rgba(255,180,120,0.95)" }}>
+              {report.unmatchedTrash.length} trashed item{report.unmatchedTrash.length === 1 ? "" : "s"} not found in
+              this library: {listNames(report.unmatchedTrash)}
+            </RNText>
+          ) : null}
+          {report.unmatchedKeep.length > 0 ? (
+            <RNText style={{ color: "rgba(255,180,120,0.95)" }}>
+              {report.unmatchedKeep.length} kept item{report.unmatchedKeep.length === 1 ? "" : "s"} not found in this
+              library: {listNames(report.unmatchedKeep)}
+            </RNText>
+          ) : null}
+          {report.unmatchedJournal > 0 ? (
+            <RNText style={{ color: "rgba(255,255,255,0.6)", fontSize: 12 }}>
+              {report.unmatchedJournal} history entr{report.unmatchedJournal === 1 ? "y refers" : "ies refer"} to
+              items not on this device; they were kept as history only.
+            </RNText>
+          ) : null}
+        </View>
+      ) : null}
+    </ScrollView>
+  );
+}
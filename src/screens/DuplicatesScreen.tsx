@@ -0,0 +1,165 @@
+import * as React from "react";
+import { View, Text as RNText, FlatList, Image, Pressable, ScrollView, Alert } from "react-native";
+import { NativeStackScreenProps } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../../App";
+import { DuplicateGroup, suggestKeeper } from "../duplicates/duplicateGroups";
+import { scanForDuplicates, ScanProgress } from "../duplicates/duplicateScan";
+import { trashDuplicates } from "../duplicates/resolveDuplicates";
+
+type Props = NativeStackScreenProps<RootStackParamList, "Duplicates">;
+
+type GroupRow = DuplicateGroup & { key: string; keeper: string };
+
+function toRows(groups: DuplicateGroup[]): GroupRow[] {
+  return groups.map((g) => ({ ...g, key: g.items.map((a) => a.uri).join("|"), keeper: suggestKeeper(g).uri }));
+}
+
+export default function DuplicatesScreen({ navigation }: Props) {
+  const [rows, setRows] = React.useState<GroupRow[] | null>(null);
+  const [progress, setProgress] = React.useState<ScanProgress | null>(null);
+  const [scanning, setScanning] = React.useState(false);
+  const [busy, setBusy] = React.useState(false);
+  const cancelledRef = React.useRef(false);
+
+  const scan = React.useCallback(async () => {
+    cancelledRef.current = false;
+    setScanning(true);
+    setProgress({ scanned: 0, hashed: 0 });
+    try {
+      const groups = await scanForDuplicates(setProgress, () => cancelledRef.current);
+      if (groups) setRows(toRows(groups));
+    } catch (e: any) {
+      Alert.alert("Scan failed", e?.message ?? "Could not scan your library.");
+    } finally {
+      setScanning(false);
+    }
+  }, []);
+
+  // Stop scanning when leaving the screen
+  React.useEffect(() => {
+    void scan();
+    return () => {
+      cancelledRef.current = true;
+    };
+  }, [scan]);
+
+  const chooseKeeper = React.useCallback((key: string, uri: string) => {
+    setRows((prev) => prev?.map((r) => (r.key === key ? { ...r, keeper: uri } : r)) ?? null);
+  }, []);
+
+  const dismiss = React.useCallback((key: string) => {
+    setRows((prev) => prev?.filter((r) => r.key !== key) ?? null);
+  }, []);
+
+  const resolve = React.useCallback(
+    async (row: GroupRow) => {
+      setBusy(true);
+      try {
+        await trashDuplicates(row.items, row.keeper);
+        dismiss(row.key);
+      } finally {
+        setBusy(false);
+      }
+    },
+    [dismiss]
+  );
+
+  const header = (
+    <View style={{ flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 12 }}>
+      <RNText style={{ color: "white", fontSize: 18 }}>
+        {scanning
+          ? `Scanning… ${progress?.scanned ?? 0}`
+          : rows
+          ? `Duplicates (${rows.length} group${rows.length === 1 ? "" : "s"})`
+          : "Duplicates"}
+      </RNText>
+
+      <Pressable
+        onPress={scanning ? () => (cancelledRef.current = true) : scan}
+        disabled={busy}
+        accessibilityRole="button"
+        accessibilityLabel={scanning ? "Stop scanning" : "Rescan for duplicates"}
+        style={{ paddingHorizontal: 12, paddingVertical: 8, borderRadius: 12, backgroundColor: "rgba(255,255,255,0.15)" }}
+      >
+        <RNText style={{ color: "white" }}>{scanning ? "Stop" : "Rescan"}</RNText>
+      </Pressable>
+    </View>
+  );
+
+  return (
+    <View style={{ flex: 1, padding: 12, backgroundColor: "black" }}>
+      {header}
+
+      {rows && rows.length === 0 && !scanning ? (
+        <View style={{ flex: 1, justifyContent: "center", alignItems: "center" }}>
+          <RNText style={{ color: "rgba(255,255,255,0.7)" }}>No duplicates found.</RNText>
+        </View>
+      ) : (
+        <FlatList
+          data={rows ?? []}
+          keyExtractor={(r) => r.key}
+          contentContainerStyle={{ gap: 16, paddingBottom: 20 }}
+          renderItem={({ item: row }) => (
+            <View style={{ gap: 8 }}>
+              <RNText style={{ color: "rgba(255,255,255,0.75)", fontSize: 12 }}>
+                {row.items.length} {row.exact ? "identical" : "similar"} photos • tap the one to keep
+              </RNText>
+
+              <ScrollView horizontal contentContainerStyle={{ gap: 8 }}>
+                {row.items.map((a) => (
+                  <Pressable
+                    key={a.uri}
+                    onPress={() => chooseKeeper(row.key, a.uri)}
+                    disabled={busy}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Keep ${a.filename ?? "this photo"}`}
+                    accessibilityState={{ selected: a.uri === row.keeper, disabled: busy }}
+                  >
+                    <Image
+                      source={{ uri: a.uri }}
+                      style={{
+                        width: 110,
+                        height: 110,
+                        borderRadius: 10,
+                        borderWidth: 3,
+                        borderColor: a.uri === row.keeper ? "#2f6fed" : "transparent",
+                      }}
+                    />
+                  </Pressable>
+                ))}
+              </ScrollView>
+
+              <View style={{ flexDirection: "row", gap: 8 }}>
+                <Pressable
+                  onPress={() => resolve(row)}
+                  disabled={busy}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Keep the selected photo and trash the other ${row.items.length - 1}`}
+                  style={{ paddingHorizontal: 12, paddingVertical: 8, borderRadius: 12, backgroundColor: "rgba(255,0,0,0.25)" }}
+                >
+                  <RNText style={{ color: "white" }}>Keep 1, trash {row.items.length - 1}</RNText>
+                </Pressable>
+
+                <Pressable
+                  onPress={() => dismiss(row.key)}
+                  disabled={busy}
+                  accessibilityRole="button"
+                  accessibilityLabel="Not duplicates"
+                  style={{ paddingHorizontal: 12, paddingVertical: 8, borderRadius: 12, backgroundColor: "rgba(255,255,255,0.1)" }}
+                >
+                  <RNText style={{ color: "white" }}>Not duplicates</RNText>
+                </Pressable>
+              </View>
+            </View>
+          )}
+        />
+      )}
+
+      <Pressable onPress={() => navigation.navigate("Trash")} accessibilityRole="link" accessibilityLabel="Open trash">
+        <RNText style={{ color: "rgba(255,255,255,0.5)", marginTop: 8, fontSize: 12 }}>
+          Trashed duplicates wait in the Trash until you delete them. Open Trash ›
+        </RNText>
+      </Pressable>
+    </View>
+  );
+}
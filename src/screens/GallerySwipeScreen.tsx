@@ -2,6 +2,7 @@ import * as React from "react";
 import {
   View,
   Image,
+  FlatList,
   ActivityIndicator,
   Dimensions,
   Text as RNText,
@@ -11,346 +12,213 @@ import {
   Alert,
   Modal,
   TextInput,
+  AccessibilityInfo,
+  GestureResponderEvent,
 } from "react-native";
-import { CameraRoll } from "@react-native-camera-roll/camera-roll";
 import { NativeStackScreenProps } from "@react-navigation/native-stack";
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useIsFocused } from "@react-navigation/native";
+import Video from "react-native-video";
+import { KeyboardExtendedBaseView } from "react-native-external-keyboard";
+import { trigger } from "react-native-haptic-feedback";
 import type { RootStackParamList } from "../../App";
-import { addToTrash, getTrashSet, removeFromTrash } from "../trashStore";
+import { createSessionEngine } from "../session/sessionEngine";
+import { createCameraRollSource } from "../session/cameraRollSource";
+import { createAsyncSessionStorage } from "../session/asyncSessionStorage";
+import { parsePeriod, SessionScope, scopeTitle } from "../session/sessionScope";
+import { assetDetails, formatDuration, MediaAsset } from "../mediaAsset";
+import { RECONCILE_INTERVAL_MS } from "../assetExistence";
+import {
+  actionForKey,
+  CARD_ACCESSIBILITY_ACTIONS,
+  describeCard,
+  describeOutcome,
+  directionAction,
+  SwipeAction,
+  swipeHint,
+} from "../swipeActions";
+import {
+  clampZoom,
+  DOUBLE_TAP_MS,
+  isZoomed,
+  NO_ZOOM,
+  pinchTo,
+  settleZoom,
+  toggleZoomAt,
+  touchDistance,
+  touchMidpoint,
+  Zoom,
+} from "../cardZoom";
+import { createPrefetcher } from "../imagePrefetch";
+import { getSettings, loadSettings, sessionOptions, swipeThreshold, useSettings } from "../settings";
 
 type Props = NativeStackScreenProps<RootStackParamList, "GallerySwipe">;
 
-const HISTORY_LIMIT = 5;
-
-// Queue/paging knobs
-const PAGE_SIZE = 80; // how many we fetch per API call
-const MIN_QUEUE_BEFORE_REFILL = 20; // when queue gets low, fetch more
-const MAX_QUEUE_PERSIST = 120; // how many upcoming URIs we persist (keep small)
-
-// Storage keys
-const KEY_POS = "gallery_progress_global_pos_v1"; // number processed so far (0-based)
-const KEY_QUEUE = "gallery_progress_queue_v1"; // upcoming URIs
-const KEY_AFTER = "gallery_progress_after_cursor_v1"; // end_cursor to fetch next
-const KEY_TOTAL = "gallery_total_photos_cached_v1"; // cached total
-const KEY_TOTAL_TS = "gallery_total_photos_cached_ts_v1"; // ms timestamp
-
-type Action =
-  | { kind: "skip"; uri: string }
-  | { kind: "trash"; uri: string };
-
-async function getNumber(key: string, fallback = 0): Promise<number> {
-  const v = await AsyncStorage.getItem(key);
-  const n = v ? Number(v) : NaN;
-  return Number.isFinite(n) ? n : fallback;
-}
-
-async function setNumber(key: string, n: number) {
-  await AsyncStorage.setItem(key, String(n));
-}
-
-async function getString(key: string): Promise<string | null> {
-  const v = await AsyncStorage.getItem(key);
-  return typeof v === "string" && v.length > 0 ? v : null;
-}
-
-async function setString(key: string, v: string | null) {
-  if (!v) await AsyncStorage.removeItem(key);
-  else await AsyncStorage.setItem(key, v);
-}
-
-async function getStringArray(key: string): Promise<string[]> {
-  const raw = await AsyncStorage.getItem(key);
-  if (!raw) return [];
-  try {
-    const arr = JSON.parse(raw);
-    if (!Array.isArray(arr)) return [];
-    return arr.filter((x) => typeof x === "string" && x.length > 0);
-  } catch {
-    return [];
-  }
-}
-
-async function setStringArray(key: string, arr: string[]) {
-  await AsyncStorage.setItem(key, JSON.stringify(arr));
-}
-
-/**
- * Expensive total-count pass (cursor pagination).
- * We run it optionally and cache the result.
- */
-async function countAllPhotos(): Promise<number> {
-  let total = 0;
-  let after: string | undefined = undefined;
-
-  // Big page size reduces calls; adjust if you hit memory/time issues.
-  const COUNT_PAGE_SIZE = 1000;
-
-  while (true) {
-    const res = await CameraRoll.getPhotos({
-      first: COUNT_PAGE_SIZE,
-      assetType: "Photos",
-      after,
-    });
-
-    total += res.edges.length;
-
-    if (!res.page_info?.has_next_page) break;
-    after = res.page_info?.end_cursor;
-    if (!after) break;
-  }
+// Upcoming items shown at once in grid mode; each commit decides all of them.
+const GRID_BATCH = 24;
 
-  return total;
-}
-
-export default function GallerySwipeScreen({ navigation }: Props) {
+export default function GallerySwipeScreen({ navigation, route }: Props) {
   const { width, height } = Dimensions.get("window");
+  const isFocused = useIsFocused();
 
   const [err, setErr] = React.useState<string | null>(null);
-  const [busy, setBusy] = React.useState(false);
-
-  // Global position among ALL photos (processed count so far, 0-based)
-  const [pos, setPos] = React.useState(0);
-
-  // Upcoming photos (URIs). Current photo is queue[0].
-  const [queue, setQueue] = React.useState<string[] | null>(null);
 
-  // Cursor to fetch the next batch after the already fetched ones.
-  const [afterCursor, setAfterCursorState] = React.useState<string | null>(null);
+  const { album, fromTime, toTime, order, media } = route.params ?? {};
+  const scope = React.useMemo<SessionScope>(
+    () => ({ album, fromTime, toTime, order, media }),
+    [album, fromTime, toTime, order, media]
+  );
+  const engine = React.useMemo(
+    () =>
+      createSessionEngine(createCameraRollSource(scope), createAsyncSessionStorage(scope), sessionOptions(getSettings())),
+    [scope]
+  );
 
-  // Trash count for UI
-  const [trashCount, setTrashCount] = React.useState(0);
+  const settings = useSettings();
+  React.useEffect(() => {
+    engine.configure(sessionOptions(settings));
+  }, [engine, settings]);
 
-  // Undo history (last 5 actions)
-  const [history, setHistory] = React.useState<Action[]>([]);
+  React.useLayoutEffect(() => {
+    navigation.setOptions({ title: scopeTitle(scope) });
+  }, [navigation, scope]);
 
-  // Total count (cached or computed)
-  const [totalCount, setTotalCount] = React.useState<number | null>(null);
+  const { pos, queue, afterCursor, history, trashCount, keepCount, totalCount, counted, left, drift, busy } =
+    React.useSyncExternalStore(engine.subscribe, engine.getState);
 
   // Jump UI
   const [jumpOpen, setJumpOpen] = React.useState(false);
   const [jumpText, setJumpText] = React.useState("");
+  const [jumpMode, setJumpMode] = React.useState<"number" | "date">("number");
 
-  const pan = React.useRef(new Animated.ValueXY({ x: 0, y: 0 })).current;
+  // Grid triage: the upcoming queue as thumbnails; tapped ones go to the trash, the rest are skipped
+  const [gridMode, setGridMode] = React.useState(false);
+  const [marked, setMarked] = React.useState<Set<string>>(new Set());
 
-  const resetPan = React.useCallback(() => {
-    Animated.spring(pan, { toValue: { x: 0, y: 0 }, useNativeDriver: true }).start();
-  }, [pan]);
+  // Details of the current card; stays open from card to card until toggled off
+  const [infoOpen, setInfoOpen] = React.useState(false);
 
-  const pushHistory = React.useCallback((a: Action) => {
-    setHistory((prev) => [a, ...prev].slice(0, HISTORY_LIMIT));
-  }, []);
+  const pan = React.useRef(new Animated.ValueXY({ x: 0, y: 0 })).current;
 
-  const persistProgress = React.useCallback(
-    async (nextPos: number, nextQueue: string[], nextAfter: string | null) => {
-      // Persist small queue only
-      const q = nextQueue.slice(0, MAX_QUEUE_PERSIST);
-      await Promise.all([
-        setNumber(KEY_POS, nextPos),
-        setStringArray(KEY_QUEUE, q),
-        setString(KEY_AFTER, nextAfter),
-      ]);
+  // Photo zoom. While zoomed in, drags pan the photo and swipes don't decide anything.
+  const zoomScale = React.useRef(new Animated.Value(1)).current;
+  const zoomOffset = React.useRef(new Animated.ValueXY({ x: 0, y: 0 })).current;
+  const zoomRef = React.useRef<Zoom>(NO_ZOOM);
+  const [zoomed, setZoomed] = React.useState(false);
+  // What the current touch is doing; a second finger turns any drag into a pinch
+  const gesture = React.useRef<{
+    mode: "swipe" | "pinch" | "pan";
+    start: Zoom;
+    distance: number;
+    focus: { x: number; y: number };
+  }>({
+    mode: "swipe",
+    start: NO_ZOOM,
+    distance: 0,
+    focus: { x: 0, y: 0 },
+  });
+  const lastTap = React.useRef<{ at: number; timer: ReturnType<typeof setTimeout> | null }>({ at: 0, timer: null });
+
+  const applyZoom = React.useCallback(
+    (z: Zoom, animate: boolean) => {
+      zoomRef.current = z;
+      setZoomed(isZoomed(z));
+      if (animate) {
+        Animated.parallel([
+          Animated.spring(zoomScale, { toValue: z.scale, useNativeDriver: true }),
+          Animated.spring(zoomOffset, { toValue: { x: z.x, y: z.y }, useNativeDriver: true }),
+        ]).start();
+      } else {
+        zoomScale.setValue(z.scale);
+        zoomOffset.setValue({ x: z.x, y: z.y });
+      }
     },
-    []
+    [zoomOffset, zoomScale]
   );
 
-  const refillQueueIfNeeded = React.useCallback(
-    async (currentQueue: string[], currentAfter: string | null) => {
-      if (currentQueue.length >= MIN_QUEUE_BEFORE_REFILL) return { q: currentQueue, after: currentAfter };
+  // Items deleted outside the app that were dropped from the queue (shown until dismissed)
+  const [goneCount, setGoneCount] = React.useState(0);
+  // The drift notice stays until dismissed; a new drift (next load) brings it back
+  const [dismissedDrift, setDismissedDrift] = React.useState<typeof drift>(null);
+  const lastReconcile = React.useRef(0);
 
-      const trash = await getTrashSet();
-
-      const res = await CameraRoll.getPhotos({
-        first: PAGE_SIZE,
-        assetType: "Photos",
-        after: currentAfter ?? undefined,
-      });
-
-      const newUris = res.edges
-        .map((e) => e.node.image?.uri)
-        .filter((u): u is string => typeof u === "string" && u.length > 0)
-        .filter((u) => !trash.has(u)); // hide already trashed in our app
-
-      const nextAfter = res.page_info?.has_next_page ? res.page_info?.end_cursor ?? null : null;
-
-      // append and dedupe lightly (avoid repeats)
-      const merged = [...currentQueue, ...newUris];
-      const deduped: string[] = [];
-      const seen = new Set<string>();
-      for (const u of merged) {
-        if (seen.has(u)) continue;
-        seen.add(u);
-        deduped.push(u);
+  const reconcileQueue = React.useCallback(
+    async (force: boolean) => {
+      if (!force && Date.now() - lastReconcile.current < RECONCILE_INTERVAL_MS) return;
+      lastReconcile.current = Date.now();
+      try {
+        const removed = await engine.reconcile();
+        if (removed > 0) setGoneCount((n) => n + removed);
+      } catch {
+        // couldn't read the library; try again next time
       }
-
-      return { q: deduped, after: nextAfter };
     },
-    []
+    [engine]
   );
 
+  const resetPan = React.useCallback(() => {
+    Animated.spring(pan, { toValue: { x: 0, y: 0 }, useNativeDriver: true }).start();
+  }, [pan]);
+
   const loadInitial = React.useCallback(async () => {
     try {
-      const [trash, savedPos, savedQueue, savedAfter] = await Promise.all([
-        getTrashSet(),
-        getNumber(KEY_POS, 0),
-        getStringArray(KEY_QUEUE),
-        getString(KEY_AFTER),
-      ]);
-
-      setTrashCount(trash.size);
-
-      // Use saved queue if available; otherwise fetch first page
-      let q = savedQueue.filter((u) => !trash.has(u));
-      let after = savedAfter;
-
-      if (q.length === 0) {
-        const res = await CameraRoll.getPhotos({ first: PAGE_SIZE, assetType: "Photos" });
-        q = res.edges
-          .map((e) => e.node.image?.uri)
-          .filter((u): u is string => typeof u === "string" && u.length > 0)
-          .filter((u) => !trash.has(u));
-
-        after = res.page_info?.has_next_page ? res.page_info?.end_cursor ?? null : null;
-      }
-
-      // Ensure we have enough buffer
-      const refilled = await refillQueueIfNeeded(q, after);
-
-      setPos(savedPos);
-      setQueue(refilled.q);
-      setAfterCursorState(refilled.after);
-
-      // persist in case we filtered things out
-      await persistProgress(savedPos, refilled.q, refilled.after);
-
+      await engine.load();
       setErr(null);
-      setHistory([]);
       pan.setValue({ x: 0, y: 0 });
     } catch (e: any) {
       setErr(e?.message ?? "Failed to load photos");
     }
-  }, [pan, persistProgress, refillQueueIfNeeded]);
-
-  const loadTotalCountFromCacheOrCompute = React.useCallback(async () => {
-    // Load cached total first (instant)
-    const cached = await getNumber(KEY_TOTAL, 0);
-    const ts = await getNumber(KEY_TOTAL_TS, 0);
-    if (cached > 0) setTotalCount(cached);
-
-    // Recompute if cache is old (e.g. older than 24h) OR missing
-    const ONE_DAY = 24 * 60 * 60 * 1000;
-    const isStale = !ts || Date.now() - ts > ONE_DAY;
-    if (cached > 0 && !isStale) return;
-
-    // This is expensive; we do it without blocking UI.
-    try {
-      const total = await countAllPhotos();
-      setTotalCount(total);
-      await Promise.all([setNumber(KEY_TOTAL, total), setNumber(KEY_TOTAL_TS, Date.now())]);
-    } catch {
-      // ignore (we can keep "?" total)
-    }
-  }, []);
+  }, [engine, pan]);
 
   React.useEffect(() => {
-    let alive = true;
+    const counting = new AbortController();
     (async () => {
-      if (!alive) return;
+      engine.configure(sessionOptions(await loadSettings()));
       await loadInitial();
-      void loadTotalCountFromCacheOrCompute();
+      await reconcileQueue(true);
+      // This is expensive; we do it without blocking UI. Leaving stops it, and the
+      // next visit carries on where it got to.
+      if (counting.signal.aborted) return;
+      engine.loadTotalCount(counting.signal).catch(() => {
+        // ignore (we can keep "?" total)
+      });
     })();
-    return () => {
-      alive = false;
-    };
-  }, [loadInitial, loadTotalCountFromCacheOrCompute]);
+    return () => counting.abort();
+  }, [engine, loadInitial, reconcileQueue]);
 
-  // Refresh trash count when returning from Trash screen
+  // Refresh counts and the undo window when returning from the Trash / Kept / History screens
   React.useEffect(() => {
-    const unsub = navigation.addListener("focus", async () => {
-      const s = await getTrashSet();
-      setTrashCount(s.size);
+    const unsub = navigation.addListener("focus", () => {
+      const report = (e: any) => Alert.alert("Couldn't refresh", e?.message ?? "Could not reload your trash and history.");
+      engine.refreshCounts().catch(report);
+      engine.refreshHistory().catch(report);
+      reconcileQueue(false);
     });
     return unsub;
-  }, [navigation]);
-
-  const clearProgress = React.useCallback(async () => {
-    await Promise.all([
-      AsyncStorage.removeItem(KEY_POS),
-      AsyncStorage.removeItem(KEY_QUEUE),
-      AsyncStorage.removeItem(KEY_AFTER),
-    ]);
-  }, []);
-
-  /**
-   * Rebuild queue + cursor such that pos points to `targetPos` (0-based in the full CameraRoll order).
-   * Note: We still filter out items already in our trash set, so the first shown image might be the
-   * next non-trashed photo at/after targetPos.
-   */
-  const rebuildStateAtPos = React.useCallback(
-    async (targetPos: number) => {
-      const trash = await getTrashSet();
-
-      let after: string | undefined = undefined;
-      let consumed = 0; // how many CameraRoll items we've skipped so far
-
-      // Find the page containing targetPos
-      while (true) {
-        const res = await CameraRoll.getPhotos({
-          first: PAGE_SIZE,
-          assetType: "Photos",
-          after,
-        });
-
-        const edges = res.edges ?? [];
-        const pageLen = edges.length;
-
-        // No more photos
-        if (pageLen === 0) {
-          return { pos: Math.max(0, consumed), q: [] as string[], after: null as string | null };
-        }
-
-        // If the target is beyond this page, skip it.
-        if (consumed + pageLen <= targetPos && res.page_info?.has_next_page && res.page_info?.end_cursor) {
-          consumed += pageLen;
-          after = res.page_info.end_cursor;
-          continue;
-        }
-
-        // Target is inside this page (or we're at the end).
-        const startIdx = Math.max(0, targetPos - consumed);
-        const urisInPage = edges
-          .slice(startIdx)
-          .map((e) => e.node.image?.uri)
-          .filter((u): u is string => typeof u === "string" && u.length > 0);
-
-        // Filter out already-trashed in our app
-        let q = urisInPage.filter((u) => !trash.has(u));
-
-        let nextAfter: string | null = res.page_info?.has_next_page ? res.page_info?.end_cursor ?? null : null;
-
-        // Top up queue if needed so the user can immediately keep swiping
-        const refilled = await refillQueueIfNeeded(q, nextAfter);
-        q = refilled.q;
-        nextAfter = refilled.after;
-
-        return { pos: Math.max(0, targetPos), q, after: nextAfter };
-      }
-    },
-    [refillQueueIfNeeded]
-  );
+  }, [engine, navigation, reconcileQueue]);
 
+  const current = queue && queue.length > 0 ? queue[0] : null;
+  const next = queue && queue.length > 1 ? queue[1] : null;
+  const zoomable = !!current && current.kind !== "video";
 
+  // Warm the cache for the photos after this one (videos load when they play)
+  const prefetcher = React.useMemo(() => createPrefetcher(), []);
+  React.useEffect(() => {
+    const upcoming = (queue ?? []).slice(1, 1 + settings.prefetchDepth).filter((a) => a.kind !== "video");
+    prefetcher.setWindow(upcoming.map((a) => a.uri));
+  }, [prefetcher, queue, settings.prefetchDepth]);
+  React.useEffect(() => () => prefetcher.setWindow([]), [prefetcher]);
 
-  const currentUri = queue && queue.length > 0 ? queue[0] : null;
+  // Every card starts at 1x
+  React.useEffect(() => {
+    applyZoom(NO_ZOOM, false);
+  }, [applyZoom, current?.uri]);
 
-  const commitState = React.useCallback(
-    async (nextPos: number, nextQueue: string[], nextAfter: string | null) => {
-      setPos(nextPos);
-      setQueue(nextQueue);
-      setAfterCursorState(nextAfter);
-      await persistProgress(nextPos, nextQueue, nextAfter);
-    },
-    [persistProgress]
-  );
+  React.useEffect(() => {
+    const tap = lastTap.current;
+    return () => {
+      if (tap.timer) clearTimeout(tap.timer);
+    };
+  }, []);
 
   const restartFromBeginning = React.useCallback(() => {
     Alert.alert(
@@ -362,23 +230,20 @@ export default function GallerySwipeScreen({ navigation }: Props) {
           text: "Restart",
           style: "destructive",
           onPress: async () => {
-            if (busy) return;
-            setBusy(true);
+            setJumpOpen(false);
+            setJumpText("");
+            pan.setValue({ x: 0, y: 0 });
             try {
-              setJumpOpen(false);
-              setJumpText("");
-              setHistory([]);
-              pan.setValue({ x: 0, y: 0 });
-              await clearProgress();
-              await loadInitial();
-            } finally {
-              setBusy(false);
+              await engine.restart();
+              setErr(null);
+            } catch (e: any) {
+              setErr(e?.message ?? "Failed to load photos");
             }
           },
         },
       ]
     );
-  }, [busy, clearProgress, loadInitial, pan]);
+  }, [engine, pan]);
 
   const jumpToNth = React.useCallback(() => {
     const raw = jumpText.trim();
@@ -400,178 +265,287 @@ export default function GallerySwipeScreen({ navigation }: Props) {
         {
           text: "Jump",
           onPress: async () => {
-            if (busy) return;
-            setBusy(true);
+            setJumpOpen(false);
+            pan.setValue({ x: 0, y: 0 });
             try {
-              setJumpOpen(false);
-              setHistory([]);
-              pan.setValue({ x: 0, y: 0 });
-
-              const targetPos = n - 1;
-              const rebuilt = await rebuildStateAtPos(targetPos);
-              await commitState(rebuilt.pos, rebuilt.q, rebuilt.after);
+              await engine.jumpTo(n - 1);
             } catch (e: any) {
               Alert.alert("Jump failed", e?.message ?? "Could not jump to that position.");
-            } finally {
-              setBusy(false);
             }
           },
         },
       ]
     );
-  }, [busy, commitState, jumpText, pan, rebuildStateAtPos]);
+  }, [engine, jumpText, pan, totalCount]);
 
-  const refillingRef = React.useRef(false);
-
-  React.useEffect(() => {
-    if (busy) return;
-    if (refillingRef.current) return;
-    if (!queue) return;
-    if (queue.length !== 0) return;
-    if (!afterCursor) return;
+  const jumpToDate = React.useCallback(() => {
+    const text = jumpText.trim();
+    const period = parsePeriod(text);
+    if (!period) {
+      Alert.alert("Invalid date", "Enter a year, month or day (e.g. 2019, 2019-06, 2019-06-15).", [{ text: "OK" }]);
+      return;
+    }
 
-    refillingRef.current = true;
-    (async () => {
-      try {
-        setBusy(true);
-        const refilled = await refillQueueIfNeeded(queue, afterCursor);
-        await commitState(pos, refilled.q, refilled.after);
-      } finally {
-        setBusy(false);
-        refillingRef.current = false;
-      }
-    })();
-  }, [afterCursor, busy, commitState, pos, queue, refillQueueIfNeeded]);
+    Alert.alert(
+      "Jump?",
+      `Jump to photos from ${text} and continue from there?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Jump",
+          onPress: async () => {
+            setJumpOpen(false);
+            pan.setValue({ x: 0, y: 0 });
+            try {
+              if (!(await engine.jumpToPeriod(period.start, period.end))) return;
+              const first = engine.getState().queue?.[0];
+              const at = first?.capturedAt;
+              if (at === undefined || at < period.start || at > period.end) {
+                Alert.alert("Nothing from then", `No photos from ${text}; continuing from the next one in order.`);
+              }
+            } catch (e: any) {
+              Alert.alert("Jump failed", e?.message ?? "Could not jump to that date.");
+            }
+          },
+        },
+      ]
+    );
+  }, [engine, jumpText, pan]);
 
-  // Swipe LEFT = skip (advance)
+  // Skip (advance)
   const skipCurrent = React.useCallback(async () => {
-    if (busy) return;
-    if (!queue || queue.length === 0) return;
-
-    const uri = queue[0];
-    setBusy(true);
-    try {
-      pushHistory({ kind: "skip", uri });
-
-      const nextPos = pos + 1;
-      const nextQueue = queue.slice(1);
-      let nextAfter = afterCursor;
-
-      const refilled = await refillQueueIfNeeded(nextQueue, nextAfter);
-      nextAfter = refilled.after;
-
-      await commitState(nextPos, refilled.q, nextAfter);
-      pan.setValue({ x: 0, y: 0 });
-    } finally {
-      setBusy(false);
-    }
-  }, [afterCursor, busy, commitState, pan, pos, pushHistory, queue, refillQueueIfNeeded]);
+    const ok = await engine.skip();
+    pan.setValue({ x: 0, y: 0 });
+    return ok;
+  }, [engine, pan]);
 
-  // Swipe RIGHT = trash (mark locally & hide)
+  // Trash (mark locally & hide)
   const trashCurrent = React.useCallback(async () => {
-    if (busy) return;
-    if (!queue || queue.length === 0) return;
-
-    const uri = queue[0];
-    setBusy(true);
-    try {
-      pushHistory({ kind: "trash", uri });
-
-      await addToTrash(uri);
-
-      const s = await getTrashSet();
-      setTrashCount(s.size);
-
-      const nextPos = pos + 1;
-      const nextQueue = queue.slice(1);
-      let nextAfter = afterCursor;
-
-      const refilled = await refillQueueIfNeeded(nextQueue, nextAfter);
-      nextAfter = refilled.after;
-
-      await commitState(nextPos, refilled.q, nextAfter);
-      pan.setValue({ x: 0, y: 0 });
-    } finally {
-      setBusy(false);
-    }
-  }, [afterCursor, busy, commitState, pan, pos, pushHistory, queue, refillQueueIfNeeded]);
-
-  // Undo last 5 actions (skip/trash)
+    const ok = await engine.trash();
+    pan.setValue({ x: 0, y: 0 });
+    return ok;
+  }, [engine, pan]);
+
+  // Keep (never shown again)
+  const keepCurrent = React.useCallback(async () => {
+    const ok = await engine.keep();
+    pan.setValue({ x: 0, y: 0 });
+    return ok;
+  }, [engine, pan]);
+
+  // Undo recent actions (skip/trash/keep)
   const undoLast = React.useCallback(async () => {
-    if (busy) return;
-    const last = history[0];
-    if (!last) return;
+    const ok = await engine.undo();
+    pan.setValue({ x: 0, y: 0 });
+    return ok;
+  }, [engine, pan]);
 
-    setBusy(true);
-    try {
-      const uri = last.uri;
+  const confirmTrash = React.useCallback(
+    () =>
+      new Promise<boolean>((resolve) => {
+        Alert.alert(
+          "Move to trash?",
+          undefined,
+          [
+            { text: "Cancel", style: "cancel", onPress: () => resolve(false) },
+            { text: "Trash", style: "destructive", onPress: () => resolve(true) },
+          ],
+          { cancelable: true, onDismiss: () => resolve(false) }
+        );
+      }),
+    []
+  );
 
-      // If it was trashed, untrash it
-      if (last.kind === "trash") {
-        await removeFromTrash(uri);
-        const s = await getTrashSet();
-        setTrashCount(s.size);
+  // Swipes, buttons, screen reader actions and keyboard shortcuts; the result is announced.
+  const runAction = React.useCallback(
+    async (action: SwipeAction) => {
+      if (action === "openTrash") {
+        navigation.navigate("Trash");
+        return;
+      }
+      if (action === "info") {
+        const asset = engine.getState().queue?.[0];
+        if (!infoOpen && asset) {
+          AccessibilityInfo.announceForAccessibility(
+            assetDetails(asset)
+              .map((r) => `${r.label}: ${r.value}`)
+              .join(". ")
+          );
+        }
+        setInfoOpen((o) => !o);
+        return;
+      }
+      if (action === "trash" && settings.confirmBeforeTrash && !(await confirmTrash())) {
+        pan.setValue({ x: 0, y: 0 });
+        return;
       }
+      const run = { trash: trashCurrent, skip: skipCurrent, keep: keepCurrent, undo: undoLast }[action];
+      if (!(await run())) return;
+      if (settings.haptics) trigger(action === "trash" ? "notificationWarning" : "impactLight");
+      const next = engine.getState();
+      AccessibilityInfo.announceForAccessibility(
+        describeOutcome(action, next.queue?.[0] ?? null, next.pos, next.totalCount)
+      );
+    },
+    [confirmTrash, engine, infoOpen, keepCurrent, navigation, pan, settings, skipCurrent, trashCurrent, undoLast]
+  );
 
-      // Put the uri back to the FRONT of the queue and rewind position.
-      const nextPos = Math.max(0, pos - 1);
-      const nextQueue = queue ? [uri, ...queue] : [uri];
-      const nextAfter = afterCursor;
+  // Gestures, keys and taps can't wait on the result, so failures are reported here.
+  const performAction = React.useCallback(
+    (action: SwipeAction) => {
+      runAction(action).catch((e: any) => {
+        pan.setValue({ x: 0, y: 0 });
+        Alert.alert("Action failed", e?.message ?? "Could not apply that action.");
+      });
+    },
+    [pan, runAction]
+  );
 
-      setHistory((prev) => prev.slice(1));
-      await commitState(nextPos, nextQueue, nextAfter);
-      pan.setValue({ x: 0, y: 0 });
-    } finally {
-      setBusy(false);
+  const toggleMarked = React.useCallback((uri: string) => {
+    setMarked((prev) => {
+      const next = new Set(prev);
+      if (next.has(uri)) next.delete(uri);
+      else next.add(uri);
+      return next;
+    });
+  }, []);
+
+  const commitGrid = React.useCallback(async () => {
+    const items = (engine.getState().queue ?? []).slice(0, GRID_BATCH);
+    const trashUris = items.filter((a) => marked.has(a.uri)).map((a) => a.uri);
+    if (trashUris.length > 0 && settings.confirmBeforeTrash && !(await confirmTrash())) return;
+    try {
+      if (!(await engine.triage(items.length, trashUris))) return;
+    } catch (e: any) {
+      Alert.alert("Couldn't save", e?.message ?? "Could not apply these decisions.");
+      return;
     }
-  }, [afterCursor, busy, commitState, history, pan, pos, queue]);
+    setMarked(new Set());
+    if (settings.haptics) trigger(trashUris.length > 0 ? "notificationWarning" : "impactLight");
+    AccessibilityInfo.announceForAccessibility(
+      `${trashUris.length} moved to trash, ${items.length - trashUris.length} skipped.`
+    );
+  }, [confirmTrash, engine, marked, settings]);
 
-  const SWIPE_THRESHOLD = Math.max(60, width * 0.18);
+  const SWIPE_THRESHOLD = swipeThreshold(settings.sensitivity, width);
 
   const panResponder = React.useMemo(
     () =>
       PanResponder.create({
-        onMoveShouldSetPanResponder: (_, g) => {
+        onMoveShouldSetPanResponder: (e, g) => {
           if (busy) return false;
-          return Math.abs(g.dx) > 8 && Math.abs(g.dy) < 30;
+          if (zoomable && (e.nativeEvent.touches.length >= 2 || isZoomed(zoomRef.current))) return true;
+          const horizontal = Math.abs(g.dx) > 8 && Math.abs(g.dy) < 30;
+          const upward = g.dy < -8 && Math.abs(g.dx) < 30;
+          return horizontal || upward;
+        },
+        onPanResponderGrant: (e) => {
+          const touches = e.nativeEvent.touches;
+          const start = zoomRef.current;
+          if (zoomable && touches.length >= 2) {
+            gesture.current = { mode: "pinch", start, distance: touchDistance(touches), focus: touchMidpoint(touches) };
+          } else {
+            gesture.current = { mode: isZoomed(start) ? "pan" : "swipe", start, distance: 0, focus: { x: 0, y: 0 } };
+          }
+        },
+        onPanResponderMove: (e, g) => {
+          const touches = e.nativeEvent.touches;
+          const gs = gesture.current;
+          if (zoomable && touches.length >= 2) {
+            if (gs.mode !== "pinch") {
+              // A swipe became a pinch: put the card back and zoom from here
+              gesture.current = {
+                mode: "pinch",
+                start: zoomRef.current,
+                distance: touchDistance(touches),
+                focus: touchMidpoint(touches),
+              };
+              pan.setValue({ x: 0, y: 0 });
+              return;
+            }
+            applyZoom(pinchTo(gs.start, gs.distance, touchDistance(touches), gs.focus, width, height), false);
+            return;
+          }
+          if (gs.mode === "pinch") return; // one finger lifted; wait for the other
+          if (gs.mode === "pan") {
+            applyZoom(clampZoom({ ...gs.start, x: gs.start.x + g.dx, y: gs.start.y + g.dy }, width, height), false);
+            return;
+          }
+          pan.setValue({ x: g.dx, y: g.dy });
         },
-        onPanResponderMove: Animated.event([null, { dx: pan.x, dy: pan.y }], {
-          useNativeDriver: false,
-        }),
         onPanResponderRelease: (_, g) => {
+          if (gesture.current.mode !== "swipe") {
+            applyZoom(settleZoom(zoomRef.current, width, height), true);
+            return;
+          }
           if (busy) return;
 
           const dx = g.dx;
+          const dy = g.dy;
 
-          // RIGHT = trash
-          if (dx > SWIPE_THRESHOLD) {
+          // UP = keep
+          if (dy < -SWIPE_THRESHOLD && Math.abs(dy) > Math.abs(dx)) {
             Animated.timing(pan, {
-              toValue: { x: width, y: 0 },
+              toValue: { x: 0, y: -height },
               duration: 160,
               useNativeDriver: true,
             }).start(() => {
-              void trashCurrent();
+              performAction("keep");
             });
             return;
           }
 
-          // LEFT = skip
-          if (dx < -SWIPE_THRESHOLD) {
+          // RIGHT / LEFT = trash or skip, depending on settings
+          if (Math.abs(dx) > SWIPE_THRESHOLD) {
+            const action = directionAction(dx > 0 ? "right" : "left", settings.trashDirection);
+            // Hold the card in place while asking
+            if (action === "trash" && settings.confirmBeforeTrash) {
+              resetPan();
+              performAction(action);
+              return;
+            }
             Animated.timing(pan, {
-              toValue: { x: -width, y: 0 },
+              toValue: { x: dx > 0 ? width : -width, y: 0 },
               duration: 160,
               useNativeDriver: true,
             }).start(() => {
-              void skipCurrent();
+              performAction(action);
             });
             return;
           }
 
           resetPan();
         },
-        onPanResponderTerminate: resetPan,
+        onPanResponderTerminate: () => {
+          if (gesture.current.mode !== "swipe") applyZoom(settleZoom(zoomRef.current, width, height), true);
+          else resetPan();
+        },
       }),
-    [SWIPE_THRESHOLD, busy, pan, resetPan, skipCurrent, trashCurrent, width]
+    [SWIPE_THRESHOLD, applyZoom, busy, height, pan, performAction, resetPan, settings, width, zoomable]
+  );
+
+  // One tap toggles the info panel; on photos, a second tap in quick succession zooms instead.
+  const onCardTap = React.useCallback(
+    (e: GestureResponderEvent) => {
+      if (!zoomable) {
+        performAction("info");
+        return;
+      }
+      const tap = lastTap.current;
+      if (tap.timer && Date.now() - tap.at < DOUBLE_TAP_MS) {
+        clearTimeout(tap.timer);
+        tap.timer = null;
+        const point = { x: e.nativeEvent.locationX, y: e.nativeEvent.locationY };
+        applyZoom(toggleZoomAt(zoomRef.current, point, width, height), true);
+        return;
+      }
+      tap.at = Date.now();
+      tap.timer = setTimeout(() => {
+        tap.timer = null;
+        performAction("info");
+      }, DOUBLE_TAP_MS);
+    },
+    [applyZoom, height, performAction, width, zoomable]
   );
 
   if (err) {
@@ -580,6 +554,8 @@ export default function GallerySwipeScreen({ navigation }: Props) {
         <RNText style={{ fontSize: 16, textAlign: "center" }}>{err}</RNText>
         <Pressable
           onPress={loadInitial}
+          accessibilityRole="button"
+          accessibilityLabel="Retry loading photos"
           style={{ marginTop: 12, paddingHorizontal: 14, paddingVertical: 10, borderRadius: 12, backgroundColor: "#222" }}
         >
           <RNText style={{ color: "white" }}>Retry</RNText>
@@ -597,7 +573,7 @@ export default function GallerySwipeScreen({ navigation }: Props) {
   }
 
   // Done state (no more loaded + no more pages)
-  const done = !currentUri && !afterCursor;
+  const done = !current && !afterCursor;
 
   if (done) {
     return (
@@ -606,8 +582,11 @@ export default function GallerySwipeScreen({ navigation }: Props) {
 
         <View style={{ flexDirection: "row", gap: 10, marginTop: 16 }}>
           <Pressable
-            onPress={undoLast}
+            onPress={() => performAction("undo")}
             disabled={busy || history.length === 0}
+            accessibilityRole="button"
+            accessibilityLabel={`Undo, ${history.length} action${history.length === 1 ? "" : "s"} available`}
+            accessibilityState={{ disabled: busy || history.length === 0 }}
             style={{
               paddingHorizontal: 14,
               paddingVertical: 10,
@@ -620,14 +599,36 @@ export default function GallerySwipeScreen({ navigation }: Props) {
 
           <Pressable
             onPress={() => navigation.navigate("Trash")}
+            accessibilityRole="button"
+            accessibilityLabel={`Open trash, ${trashCount} item${trashCount === 1 ? "" : "s"}`}
             style={{ paddingHorizontal: 14, paddingVertical: 10, borderRadius: 12, backgroundColor: "#222" }}
           >
             <RNText style={{ color: "white" }}>Open Trash ({trashCount})</RNText>
           </Pressable>
+
+          <Pressable
+            onPress={() => navigation.navigate("Kept")}
+            accessibilityRole="button"
+            accessibilityLabel={`Kept items, ${keepCount}`}
+            style={{ paddingHorizontal: 14, paddingVertical: 10, borderRadius: 12, backgroundColor: "#222" }}
+          >
+            <RNText style={{ color: "white" }}>Kept ({keepCount})</RNText>
+          </Pressable>
+
+          <Pressable
+            onPress={() => navigation.navigate("History")}
+            accessibilityRole="button"
+            accessibilityLabel="History"
+            style={{ paddingHorizontal: 14, paddingVertical: 10, borderRadius: 12, backgroundColor: "#222" }}
+          >
+            <RNText style={{ color: "white" }}>History</RNText>
+          </Pressable>
         </View>
 
         <Pressable
           onPress={loadInitial}
+          accessibilityRole="button"
+          accessibilityLabel="Reload"
           style={{ marginTop: 10, paddingHorizontal: 14, paddingVertical: 10, borderRadius: 12, backgroundColor: "#222" }}
         >
           <RNText style={{ color: "white" }}>Reload</RNText>
@@ -636,19 +637,88 @@ export default function GallerySwipeScreen({ navigation }: Props) {
     );
   }
 
-
   const shownPos1Based = pos + 1; // global index starting from 1
-  const totalText = totalCount ? String(totalCount) : "?";
+  // While the first count runs, show how far it got
+  const totalText = totalCount ? String(totalCount) : counted !== null ? `${counted}…` : "?";
+  const takenText = current?.capturedAt ? new Date(current.capturedAt).toLocaleDateString() : null;
+  const gridItems = queue.slice(0, GRID_BATCH);
+  const markedCount = gridItems.filter((a) => marked.has(a.uri)).length;
+
+  const skipButton = <ActionButton label="Skip" onPress={() => performAction("skip")} disabled={busy || !current} />;
+  const trashButton = (
+    <ActionButton
+      label="Trash"
+      onPress={() => performAction("trash")}
+      disabled={busy || !current}
+      color="rgba(255,0,0,0.35)"
+    />
+  );
 
   return (
-    <View style={{ flex: 1, backgroundColor: "black" }}>
-      {currentUri ? (
-        <Animated.View
-          {...panResponder.panHandlers}
-          style={{ flex: 1, transform: [{ translateX: pan.x }, { translateY: pan.y }] }}
-        >
-          <Image source={{ uri: currentUri }} style={{ width, height, resizeMode: "contain" }} />
-        </Animated.View>
+    <KeyboardExtendedBaseView
+      style={{ flex: 1, backgroundColor: "black" }}
+      autoFocus
+      haloEffect={false}
+      onKeyDownPress={(e) => {
+        const action = jumpOpen ? null : actionForKey(e.nativeEvent, settings.trashDirection);
+        // The grid has no current card; only the actions that don't need one apply
+        if (action && (!gridMode || action === "undo" || action === "openTrash")) performAction(action);
+      }}
+    >
+      {gridMode ? (
+        <TriageGrid
+          items={gridItems}
+          marked={marked}
+          busy={busy}
+          onToggle={toggleMarked}
+          onError={() => reconcileQueue(true)}
+        />
+      ) : current ? (
+        <>
+          {/* The next card waits underneath, already loaded, and shows as this one leaves */}
+          {next && next.kind !== "video" ? (
+            <Image
+              source={{ uri: next.uri }}
+              style={{ position: "absolute", top: 0, left: 0, width, height, resizeMode: "contain" }}
+              importantForAccessibility="no-hide-descendants"
+            />
+          ) : null}
+          <Animated.View
+            {...panResponder.panHandlers}
+            accessible
+            accessibilityRole="image"
+            accessibilityLabel={describeCard(current, pos, totalCount)}
+            accessibilityHint={`${swipeHint(settings.trashDirection)}. Actions are also available from the actions menu.`}
+            accessibilityActions={CARD_ACCESSIBILITY_ACTIONS}
+            onAccessibilityAction={(e) => performAction(e.nativeEvent.actionName as SwipeAction)}
+            style={{ flex: 1, backgroundColor: "black", transform: [{ translateX: pan.x }, { translateY: pan.y }] }}
+          >
+            {/* A tap shows or hides the details; a drag still goes to the pan handler */}
+            <Pressable onPress={onCardTap} importantForAccessibility="no">
+              {current.kind === "video" ? (
+                <VideoCard
+                  asset={current}
+                  width={width}
+                  height={height}
+                  paused={!isFocused}
+                  onError={() => reconcileQueue(true)}
+                />
+              ) : (
+                <Animated.View
+                  style={{
+                    transform: [{ translateX: zoomOffset.x }, { translateY: zoomOffset.y }, { scale: zoomScale }],
+                  }}
+                >
+                  <Image
+                    source={{ uri: current.uri }}
+                    style={{ width, height, resizeMode: "contain" }}
+                    onError={() => reconcileQueue(true)}
+                  />
+                </Animated.View>
+              )}
+            </Pressable>
+          </Animated.View>
+        </>
       ) : (
         <View style={{ flex: 1, justifyContent: "center", alignItems: "center" }}>
           <ActivityIndicator />
@@ -672,6 +742,9 @@ export default function GallerySwipeScreen({ navigation }: Props) {
           <Pressable
             onPress={restartFromBeginning}
             disabled={busy}
+            accessibilityRole="button"
+            accessibilityLabel="Restart from the beginning"
+            accessibilityState={{ disabled: busy }}
             style={{
               paddingHorizontal: 10,
               paddingVertical: 6,
@@ -685,6 +758,9 @@ export default function GallerySwipeScreen({ navigation }: Props) {
           <Pressable
             onPress={() => setJumpOpen(true)}
             disabled={busy}
+            accessibilityRole="button"
+            accessibilityLabel="Jump to an image number or date"
+            accessibilityState={{ disabled: busy }}
             style={{
               paddingHorizontal: 10,
               paddingVertical: 6,
@@ -695,16 +771,49 @@ export default function GallerySwipeScreen({ navigation }: Props) {
             <RNText style={{ color: "white" }}>Jump</RNText>
           </Pressable>
 
-          <RNText style={{ color: "rgba(255,255,255,0.75)" }}>
+          <Pressable
+            onPress={() => {
+              setGridMode((g) => !g);
+              setMarked(new Set());
+              pan.setValue({ x: 0, y: 0 });
+            }}
+            disabled={busy}
+            accessibilityRole="button"
+            accessibilityLabel={gridMode ? "Back to single photos" : "Show upcoming photos as a grid"}
+            accessibilityState={{ disabled: busy }}
+            style={{
+              paddingHorizontal: 10,
+              paddingVertical: 6,
+              borderRadius: 10,
+              backgroundColor: busy ? "rgba(255,255,255,0.08)" : "rgba(255,255,255,0.15)",
+            }}
+          >
+            <RNText style={{ color: "white" }}>{gridMode ? "Cards" : "Grid"}</RNText>
+          </Pressable>
+
+          <RNText
+            style={{ color: "rgba(255,255,255,0.75)" }}
+            accessibilityLabel={`Position ${shownPos1Based} of ${totalText}${left !== null ? `, ${left} left` : ""}`}
+          >
             {shownPos1Based} / {totalText}
+            {left !== null ? ` • ${left} left` : ""}
             {busy ? " • working…" : ""}
           </RNText>
+
+          {takenText ? (
+            <RNText style={{ color: "rgba(255,255,255,0.55)" }} accessibilityLabel={`Taken ${takenText}`}>
+              {takenText}
+            </RNText>
+          ) : null}
         </View>
 
         <View style={{ flexDirection: "row", gap: 8 }}>
           <Pressable
-            onPress={undoLast}
+            onPress={() => performAction("undo")}
             disabled={busy || history.length === 0}
+            accessibilityRole="button"
+            accessibilityLabel={`Undo, ${history.length} action${history.length === 1 ? "" : "s"} available`}
+            accessibilityState={{ disabled: busy || history.length === 0 }}
             style={{
               paddingHorizontal: 10,
               paddingVertical: 6,
@@ -718,6 +827,8 @@ export default function GallerySwipeScreen({ navigation }: Props) {
 
           <Pressable
             onPress={() => navigation.navigate("Trash")}
+            accessibilityRole="button"
+            accessibilityLabel={`Open trash, ${trashCount} item${trashCount === 1 ? "" : "s"}`}
             style={{
               paddingHorizontal: 10,
               paddingVertical: 6,
@@ -727,9 +838,53 @@ export default function GallerySwipeScreen({ navigation }: Props) {
           >
             <RNText style={{ color: "white" }}>Trash ({trashCount})</RNText>
           </Pressable>
+
+          <Pressable
+            onPress={() => navigation.navigate("Kept")}
+            accessibilityRole="button"
+            accessibilityLabel={`Kept items, ${keepCount}`}
+            style={{
+              paddingHorizontal: 10,
+              paddingVertical: 6,
+              borderRadius: 10,
+              backgroundColor: "rgba(255,255,255,0.15)",
+            }}
+          >
+            <RNText style={{ color: "white" }}>Kept ({keepCount})</RNText>
+          </Pressable>
+
+          <Pressable
+            onPress={() => navigation.navigate("History")}
+            accessibilityRole="button"
+            accessibilityLabel="History"
+            style={{
+              paddingHorizontal: 10,
+              paddingVertical: 6,
+              borderRadius: 10,
+              backgroundColor: "rgba(255,255,255,0.15)",
+            }}
+          >
+            <RNText style={{ color: "white" }}>History</RNText>
+          </Pressable>
+
+          <Pressable
+            onPress={() => navigation.navigate("Stats")}
+            accessibilityRole="button"
+            accessibilityLabel="Stats"
+            style={{
+              paddingHorizontal: 10,
+              paddingVertical: 6,
+              borderRadius: 10,
+              backgroundColor: "rgba(255,255,255,0.15)",
+            }}
+          >
+            <RNText style={{ color: "white" }}>Stats</RNText>
+          </Pressable>
         </View>
       </View>
 
+      {infoOpen && current && !gridMode ? <InfoPanel asset={current} /> : null}
+
       {/* Jump modal */}
       <Modal visible={jumpOpen} transparent animationType="fade" onRequestClose={() => setJumpOpen(false)}>
         <View
@@ -741,17 +896,43 @@ export default function GallerySwipeScreen({ navigation }: Props) {
           }}
         >
           <View style={{ backgroundColor: "#111", borderRadius: 16, padding: 16 }}>
-            <RNText style={{ color: "white", fontSize: 16, fontWeight: "700" }}>Jump to image</RNText>
-            <RNText style={{ color: "rgba(255,255,255,0.75)", marginTop: 6 }}>
-              Enter an image number (1 = first)
+            <RNText style={{ color: "white", fontSize: 16, fontWeight: "700" }}>Jump to…</RNText>
+
+            <View style={{ flexDirection: "row", gap: 8, marginTop: 10 }} accessibilityRole="radiogroup">
+              {(["number", "date"] as const).map((mode) => (
+                <Pressable
+                  key={mode}
+                  onPress={() => {
+                    setJumpMode(mode);
+                    setJumpText("");
+                  }}
+                  accessibilityRole="radio"
+                  accessibilityState={{ checked: jumpMode === mode }}
+                  style={{
+                    paddingHorizontal: 12,
+                    paddingVertical: 6,
+                    borderRadius: 12,
+                    backgroundColor: jumpMode === mode ? "#2f6fed" : "rgba(255,255,255,0.08)",
+                  }}
+                >
+                  <RNText style={{ color: "white" }}>{mode === "number" ? "Image #" : "Date"}</RNText>
+                </Pressable>
+              ))}
+            </View>
+
+            <RNText style={{ color: "rgba(255,255,255,0.75)", marginTop: 10 }}>
+              {jumpMode === "number"
+                ? "Enter an image number (1 = first)"
+                : "Enter a year, month or day (YYYY, YYYY-MM or YYYY-MM-DD)"}
             </RNText>
 
             <TextInput
+              accessibilityLabel={jumpMode === "number" ? "Image number" : "Date"}
               value={jumpText}
               onChangeText={setJumpText}
-              placeholder="e.g. 25"
+              placeholder={jumpMode === "number" ? "e.g. 25" : "e.g. 2019-06"}
               placeholderTextColor="rgba(255,255,255,0.35)"
-              keyboardType="number-pad"
+              keyboardType={jumpMode === "number" ? "number-pad" : "numbers-and-punctuation"}
               style={{
                 marginTop: 12,
                 backgroundColor: "rgba(255,255,255,0.08)",
@@ -765,6 +946,8 @@ export default function GallerySwipeScreen({ navigation }: Props) {
             <View style={{ flexDirection: "row", justifyContent: "flex-end", gap: 10, marginTop: 14 }}>
               <Pressable
                 onPress={() => setJumpOpen(false)}
+                accessibilityRole="button"
+                accessibilityLabel="Cancel"
                 style={{
                   paddingHorizontal: 12,
                   paddingVertical: 10,
@@ -776,7 +959,9 @@ export default function GallerySwipeScreen({ navigation }: Props) {
               </Pressable>
 
               <Pressable
-                onPress={jumpToNth}
+                onPress={jumpMode === "number" ? jumpToNth : jumpToDate}
+                accessibilityRole="button"
+                accessibilityLabel={jumpMode === "number" ? "Jump to this image" : "Jump to this date"}
                 style={{ paddingHorizontal: 12, paddingVertical: 10, borderRadius: 12, backgroundColor: "#2f6fed" }}
               >
                 <RNText style={{ color: "white", fontWeight: "700" }}>Continue</RNText>
@@ -786,12 +971,237 @@ export default function GallerySwipeScreen({ navigation }: Props) {
         </View>
       </Modal>
 
-      {/* Bottom hint */}
-      <View style={{ position: "absolute", bottom: 18, left: 0, right: 0, alignItems: "center" }}>
-        <RNText style={{ color: "rgba(255,255,255,0.6)", fontSize: 12 }}>
-          Swipe right = trash • Swipe left = skip
-        </RNText>
-      </View>
+      {drift && drift !== dismissedDrift ? (
+        <Pressable
+          onPress={() => setDismissedDrift(drift)}
+          accessibilityRole="button"
+          accessibilityHint="Dismisses this message"
+          style={{
+            position: "absolute",
+            bottom: goneCount > 0 ? 160 : 104,
+            left: 16,
+            right: 16,
+            padding: 10,
+            borderRadius: 12,
+            backgroundColor: "rgba(40,40,40,0.95)",
+          }}
+        >
+          <RNText style={{ color: "white", textAlign: "center" }}>
+            The photo you stopped at is gone; carrying on from where it was (#{drift.to + 1}) • Tap to dismiss
+          </RNText>
+        </Pressable>
+      ) : null}
+
+      {goneCount > 0 ? (
+        <Pressable
+          onPress={() => setGoneCount(0)}
+          accessibilityRole="button"
+          accessibilityHint="Dismisses this message"
+          style={{
+            position: "absolute",
+            bottom: 104,
+            left: 16,
+            right: 16,
+            padding: 10,
+            borderRadius: 12,
+            backgroundColor: "rgba(40,40,40,0.95)",
+          }}
+        >
+          <RNText style={{ color: "white", textAlign: "center" }}>
+            {goneCount} item{goneCount === 1 ? "" : "s"} no longer exist{goneCount === 1 ? "s" : ""} and{" "}
+            {goneCount === 1 ? "was" : "were"} skipped • Tap to dismiss
+          </RNText>
+        </Pressable>
+      ) : null}
+
+      {/* Bottom controls: the same actions as the swipes, or committing the grid */}
+      {gridMode ? (
+        <View style={{ position: "absolute", bottom: 18, left: 16, right: 16, alignItems: "center", gap: 8 }}>
+          <RNText style={{ color: "rgba(255,255,255,0.6)", fontSize: 12 }} importantForAccessibility="no">
+            Tap photos to trash them • The rest are skipped
+          </RNText>
+          <View style={{ flexDirection: "row", alignSelf: "stretch", gap: 10 }}>
+            <ActionButton label="Clear" onPress={() => setMarked(new Set())} disabled={busy || markedCount === 0} />
+            <ActionButton
+              label={`Trash ${markedCount}, skip ${gridItems.length - markedCount}`}
+              onPress={commitGrid}
+              disabled={busy || gridItems.length === 0}
+              color={markedCount > 0 ? "rgba(255,0,0,0.35)" : undefined}
+            />
+          </View>
+        </View>
+      ) : (
+        <View style={{ position: "absolute", bottom: 18, left: 16, right: 16, alignItems: "center", gap: 8 }}>
+          <RNText style={{ color: "rgba(255,255,255,0.6)", fontSize: 12 }} importantForAccessibility="no">
+            {zoomed ? "Zoomed in • Pinch or double-tap to zoom out and swipe again" : swipeHint(settings.trashDirection)}
+          </RNText>
+          <View style={{ flexDirection: "row", alignSelf: "stretch", gap: 10 }}>
+            {/* Laid out like the swipes: the trash button sits on the trash side */}
+            {settings.trashDirection === "right" ? skipButton : trashButton}
+            <ActionButton label="Keep" onPress={() => performAction("keep")} disabled={busy || !current} />
+            {settings.trashDirection === "right" ? trashButton : skipButton}
+          </View>
+        </View>
+      )}
+    </KeyboardExtendedBaseView>
+  );
+}
+
+function ActionButton({
+  label,
+  onPress,
+  disabled,
+  color = "rgba(255,255,255,0.15)",
+}: {
+  label: string;
+  onPress: () => void;
+  disabled?: boolean;
+  color?: string;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={disabled}
+      accessibilityRole="button"
+      accessibilityLabel={label}
+      accessibilityState={{ disabled: !!disabled }}
+      style={{
+        flex: 1,
+        alignItems: "center",
+        paddingVertical: 12,
+        borderRadius: 12,
+        backgroundColor: disabled ? "rgba(255,255,255,0.08)" : color,
+      }}
+    >
+      <RNText style={{ color: "white", fontWeight: "700" }}>{label}</RNText>
+    </Pressable>
+  );
+}
+
+// Over the top of the card; taps fall through so the card still toggles it.
+function InfoPanel({ asset }: { asset: MediaAsset }) {
+  const rows = assetDetails(asset);
+  return (
+    <View
+      pointerEvents="none"
+      importantForAccessibility="no-hide-descendants"
+      style={{
+        position: "absolute",
+        top: 60,
+        left: 12,
+        right: 12,
+        padding: 12,
+        gap: 4,
+        borderRadius: 12,
+        backgroundColor: "rgba(0,0,0,0.75)",
+      }}
+    >
+      {rows.length === 0 ? (
+        <RNText style={{ color: "rgba(255,255,255,0.75)" }}>No details available.</RNText>
+      ) : (
+        rows.map((r) => (
+          <View key={r.label} style={{ flexDirection: "row", gap: 8 }}>
+            <RNText style={{ color: "rgba(255,255,255,0.6)", width: 84 }}>{r.label}</RNText>
+            <RNText style={{ color: "white", flex: 1 }}>{r.value}</RNText>
+          </View>
+        ))
+      )}
     </View>
   );
-}
\ No newline at end of file
+}
+
+// Thumbnails of the next GRID_BATCH items; marked ones are dimmed with a ✕.
+function TriageGrid({
+  items,
+  marked,
+  busy,
+  onToggle,
+  onError,
+}: {
+  items: MediaAsset[];
+  marked: Set<string>;
+  busy: boolean;
+  onToggle: (uri: string) => void;
+  onError: () => void;
+}) {
+  return (
+    <FlatList
+      data={items}
+      keyExtractor={(it) => it.uri}
+      numColumns={4}
+      style={{ flex: 1, marginTop: 60, marginBottom: 96 }}
+      columnWrapperStyle={{ gap: 4 }}
+      contentContainerStyle={{ gap: 4, paddingHorizontal: 4 }}
+      extraData={[marked, busy]}
+      renderItem={({ item, index }) => (
+        <Pressable
+          onPress={() => onToggle(item.uri)}
+          disabled={busy}
+          accessibilityRole="checkbox"
+          accessibilityLabel={describeCard(item, index, items.length)}
+          accessibilityHint="Marks this for the trash"
+          accessibilityState={{ checked: marked.has(item.uri), disabled: busy }}
+          style={{ flex: 1 / 4, aspectRatio: 1 }}
+        >
+          <Image
+            source={{ uri: item.uri }}
+            style={{ width: "100%", height: "100%", borderRadius: 6, opacity: marked.has(item.uri) ? 0.4 : 1 }}
+            onError={onError}
+          />
+          {marked.has(item.uri) ? (
+            <RNText style={{ position: "absolute", top: 4, right: 6, color: "#ff5252", fontSize: 18, fontWeight: "700" }}>
+              ✕
+            </RNText>
+          ) : null}
+          {item.kind === "video" ? (
+            <RNText style={{ position: "absolute", bottom: 4, left: 6, color: "white", fontSize: 11 }}>▶</RNText>
+          ) : null}
+        </Pressable>
+      )}
+    />
+  );
+}
+
+// Muted, looping inline player; swipes still go to the parent pan handler.
+function VideoCard({
+  asset,
+  width,
+  height,
+  paused,
+  onError,
+}: {
+  asset: MediaAsset;
+  width: number;
+  height: number;
+  paused: boolean;
+  onError: () => void;
+}) {
+  return (
+    <View style={{ width, height }}>
+      <Video
+        source={{ uri: asset.uri }}
+        style={{ width, height }}
+        resizeMode="contain"
+        muted
+        repeat
+        paused={paused}
+        onError={onError}
+      />
+      {asset.duration ? (
+        <View
+          style={{
+            position: "absolute",
+            bottom: 110,
+            right: 16,
+            paddingHorizontal: 8,
+            paddingVertical: 4,
+            borderRadius: 8,
+            backgroundColor: "rgba(0,0,0,0.6)",
+          }}
+        >
+          <RNText style={{ color: "white", fontSize: 12 }}>▶ {formatDuration(asset.duration)}</RNText>
+        </View>
+      ) : null}
+    </View>
+  );
+}
@@ -0,0 +1,138 @@
+import * as React from "react";
+import { View, Text as RNText, FlatList, Image, Pressable, ActivityIndicator } from "react-native";
+import { appendJournal, JournalEntry, JournalKind, readJournal, undoneIds } from "../actionJournal";
+import { getTrashSet, removeFromTrash } from "../trashStore";
+
+const KIND_LABEL: Record<Exclude<JournalKind, "undo">, string> = {
+  skip: "Skipped",
+  trash: "Trashed",
+  keep: "Kept",
+  recover: "Recovered",
+  delete: "Deleted",
+  gone: "Deleted elsewhere",
+};
+
+type Row = {
+  entry: JournalEntry;
+  undone: boolean;
+  revertable: boolean;
+};
+
+/** Newest first, without the undo markers themselves. */
+function buildRows(entries: JournalEntry[], trash: Set<string>): Row[] {
+  const undone = undoneIds(entries);
+  // Only the latest live trash decision for a URI can be reverted.
+  const seenTrash = new Set<string>();
+  const rows: Row[] = [];
+
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i];
+    if (entry.kind === "undo") continue;
+    const isUndone = undone.has(entry.id);
+
+    let revertable = false;
+    if (entry.kind === "trash" && !isUndone && !seenTrash.has(entry.asset.uri)) {
+      seenTrash.add(entry.asset.uri);
+      revertable = trash.has(entry.asset.uri);
+    }
+    rows.push({ entry, undone: isUndone, revertable });
+  }
+  return rows;
+}
+
+export default function HistoryScreen() {
+  const [rows, setRows] = React.useState<Row[] | null>(null);
+  const [busy, setBusy] = React.useState(false);
+
+  const loadHistory = React.useCallback(async () => {
+    const [entries, trash] = await Promise.all([readJournal(), getTrashSet()]);
+    setRows(buildRows(entries, trash));
+  }, []);
+
+  React.useEffect(() => {
+    void loadHistory();
+  }, [loadHistory]);
+
+  // Reverting a trash decision puts the photo back up for review; the undo is journaled too.
+  const revert = React.useCallback(
+    async (entry: JournalEntry) => {
+      setBusy(true);
+      try {
+        await removeFromTrash(entry.asset.uri);
+        await appendJournal({ kind: "undo", asset: entry.asset, target: entry.id, scope: entry.scope });
+        await loadHistory();
+      } finally {
+        setBusy(false);
+      }
+    },
+    [loadHistory]
+  );
+
+  if (!rows) {
+    return (
+      <View style={{ flex: 1, justifyContent: "center", alignItems: "center" }}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  return (
+    <View style={{ flex: 1, padding: 12, backgroundColor: "black" }}>
+      <RNText style={{ color: "white", fontSize: 18, marginBottom: 12 }}>
+        History ({rows.length}) {busy ? "• working…" : ""}
+      </RNText>
+
+      {rows.length === 0 ? (
+        <View style={{ flex: 1, justifyContent: "center", alignItems: "center" }}>
+          <RNText style={{ color: "rgba(255,255,255,0.7)" }}>Nothing yet. Your swipes will show up here.</RNText>
+        </View>
+      ) : (
+        <FlatList
+          data={rows}
+          keyExtractor={(r) => r.entry.id}
+          contentContainerStyle={{ gap: 8, paddingBottom: 20 }}
+          renderItem={({ item: { entry, undone, revertable } }) => (
+            <View style={{ flexDirection: "row", alignItems: "center", gap: 10, opacity: undone ? 0.5 : 1 }}>
+              <Image source={{ uri: entry.asset.uri }} style={{ width: 48, height: 48, borderRadius: 8 }} />
+
+              <View style={{ flex: 1 }}>
+                <RNText style={{ color: "white" }}>
+                  {KIND_LABEL[entry.kind as Exclude<JournalKind, "undo">]}
+                  {entry.pos !== null ? ` • #${entry.pos + 1}` : ""}
+                  {undone ? " • undone" : ""}
+                </RNText>
+                <RNText style={{ color: "rgba(255,255,255,0.6)", fontSize: 12 }}>
+                  {new Date(entry.at).toLocaleString()}
+                </RNText>
+              </View>
+
+              {revertable ? (
+                <Pressable
+                  onPress={() => revert(entry)}
+                  disabled={busy}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Revert: take ${entry.asset.filename ?? "this item"} out of the trash`}
+                  accessibilityState={{ disabled: busy }}
+                  style={{
+                    paddingHorizontal: 12,
+                    paddingVertical: 8,
+                    borderRadius: 12,
+                    backgroundColor: "rgba(255,255,255,0.1)",
+                    borderWidth: 1,
+                    borderColor: "rgba(255,255,255,0.2)",
+                  }}
+                >
+                  <RNText style={{ color: "white" }}>Revert</RNText>
+                </Pressable>
+              ) : null}
+            </View>
+          )}
+        />
+      )}
+
+      <RNText style={{ color: "rgba(255,255,255,0.5)", marginTop: 8, fontSize: 12 }}>
+        Reverted photos come up for review again after a restart.
+      </RNText>
+    </View>
+  );
+}
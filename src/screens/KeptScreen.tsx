@@ -0,0 +1,128 @@
+import * as React from "react";
+import { View, Text as RNText, FlatList, Image, Pressable, Alert, ActivityIndicator } from "react-native";
+import { clearKeep, getKeepEntries, KeepEntry, removeFromKeep } from "../keepStore";
+import { formatDuration } from "../mediaAsset";
+
+export default function KeptScreen() {
+  const [items, setItems] = React.useState<KeepEntry[] | null>(null);
+  const [busy, setBusy] = React.useState(false);
+
+  const loadKept = React.useCallback(async () => {
+    setItems(await getKeepEntries());
+  }, []);
+
+  React.useEffect(() => {
+    void loadKept();
+  }, [loadKept]);
+
+  // Un-keeping puts the photo back up for review once the queue reaches it again.
+  const unkeep = React.useCallback(
+    async (uri: string) => {
+      setBusy(true);
+      try {
+        await removeFromKeep(uri);
+        await loadKept();
+      } catch (e: any) {
+        Alert.alert("Couldn't un-keep", e?.message ?? "Could not remove this item from the keep list.");
+      } finally {
+        setBusy(false);
+      }
+    },
+    [loadKept]
+  );
+
+  const clearAll = React.useCallback(() => {
+    Alert.alert("Clear keep list?", "Kept photos will show up for review again. Nothing is deleted.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Clear",
+        style: "destructive",
+        onPress: async () => {
+          setBusy(true);
+          try {
+            await clearKeep();
+            await loadKept();
+          } catch (e: any) {
+            Alert.alert("Couldn't clear", e?.message ?? "Could not clear the keep list.");
+          } finally {
+            setBusy(false);
+          }
+        },
+      },
+    ]);
+  }, [loadKept]);
+
+  if (!items) {
+    return (
+      <View style={{ flex: 1, justifyContent: "center", alignItems: "center" }}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  return (
+    <View style={{ flex: 1, padding: 12, backgroundColor: "black" }}>
+      <View style={{ flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 12 }}>
+        <RNText style={{ color: "white", fontSize: 18 }}>
+          Kept ({items.length}) {busy ? "• working…" : ""}
+        </RNText>
+
+        <Pressable
+          onPress={clearAll}
+          disabled={busy || items.length === 0}
+          accessibilityRole="button"
+          accessibilityLabel="Clear all kept items"
+          accessibilityState={{ disabled: busy || items.length === 0 }}
+          style={{
+            paddingHorizontal: 12,
+            paddingVertical: 8,
+            borderRadius: 12,
+            backgroundColor: "rgba(255,255,255,0.1)",
+            borderWidth: 1,
+            borderColor: "rgba(255,255,255,0.2)",
+          }}
+        >
+          <RNText style={{ color: "white" }}>Clear all</RNText>
+        </Pressable>
+      </View>
+
+      {items.length === 0 ? (
+        <View style={{ flex: 1, justifyContent: "center", alignItems: "center" }}>
+          <RNText style={{ color: "rgba(255,255,255,0.7)" }}>Nothing kept yet. Swipe up on a photo to keep it.</RNText>
+        </View>
+      ) : (
+        <FlatList
+          data={items}
+          keyExtractor={(it) => it.uri}
+          numColumns={3}
+          columnWrapperStyle={{ gap: 8 }}
+          contentContainerStyle={{ gap: 8, paddingBottom: 20 }}
+          renderItem={({ item }) => (
+            <View style={{ flex: 1, aspectRatio: 1, gap: 6 }}>
+              <Image source={{ uri: item.uri }} style={{ width: "100%", height: "100%", borderRadius: 10 }} />
+              {item.kind === "video" && item.duration ? (
+                <RNText style={{ position: "absolute", top: 6, right: 8, color: "white", fontSize: 10 }}>
+                  ▶ {formatDuration(item.duration)}
+                </RNText>
+              ) : null}
+
+              <Pressable
+                onPress={() => unkeep(item.uri)}
+                disabled={busy}
+                accessibilityRole="button"
+                accessibilityLabel={`Un-keep ${item.filename ?? "this item"}`}
+                accessibilityState={{ disabled: busy }}
+              >
+                <RNText style={{ color: "rgba(255,255,255,0.85)", fontSize: 12 }}>Un-keep</RNText>
+              </Pressable>
+            </View>
+          )}
+        />
+      )}
+
+      <RNText style={{ color: "rgba(255,255,255,0.5)", marginTop: 8, fontSize: 12 }}>
+        Un-kept photos come up for review again after a restart.
+      </RNText>
+    </View>
+  );
+}
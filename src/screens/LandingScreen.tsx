@@ -4,7 +4,10 @@ import { Button, Text, useTheme, Surface } from "react-native-paper";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { NativeStackScreenProps } from "@react-navigation/native-stack";
 import { RootStackParamList } from "../../App";
-import { ensureGalleryPermissions, goToAppSettings } from "../permissions/galleryPermissions";
+import { ensureLibraryPermission } from "../permissions/galleryPermissions";
+import { getTrashEntries } from "../trashStore";
+import { deleteTrashEntries } from "../trashDeletion";
+import { findExpired, getRetentionDays } from "../trashRetention";
 
 type Props = NativeStackScreenProps<RootStackParamList, "Landing">;
 
@@ -12,33 +15,58 @@ export default function LandingScreen({ navigation }: Props) {
   const [loading, setLoading] = React.useState(false);
   const theme = useTheme();
 
-  const onStart = async () => {
+  // On app start, offer to purge trash older than the retention policy.
+  React.useEffect(() => {
+    (async () => {
+      const [entries, days] = await Promise.all([getTrashEntries(), getRetentionDays()]);
+      const expired = findExpired(entries, days);
+      if (expired.length === 0) return;
+
+      const uris = expired.map((e) => e.uri);
+      Alert.alert(
+        "Empty old trash?",
+        `${uris.length} trashed photo${uris.length === 1 ? " has" : "s have"} been in the trash for over ${days} days. Delete ${uris.length === 1 ? "it" : "them"} from your device now?`,
+        [
+          { text: "Later", style: "cancel" },
+          {
+            text: "Delete",
+            style: "destructive",
+            onPress: async () => {
+              try {
+                const { failed } = await deleteTrashEntries(expired);
+                if (failed.length > 0) {
+                  Alert.alert(
+                    "Some photos weren't deleted",
+                    `${failed.length} couldn't be deleted and ${failed.length === 1 ? "is" : "are"} still in the trash.`
+                  );
+                }
+              } catch (e: any) {
+                Alert.alert("Delete failed", e?.message ?? "Could not delete expired photos.");
+              }
+            },
+          },
+        ]
+      );
+    })().catch((e: any) => {
+      Alert.alert("Couldn't check the trash", e?.message ?? "Could not look for expired photos.");
+    });
+  }, []);
+
+  // Gallery access is required before either the swipe deck or the album list.
+  const withPermission = async (next: () => void) => {
     setLoading(true);
     try {
-      const res = await ensureGalleryPermissions();
-
-      if (!res.granted) {
-        Alert.alert(
-          "Permission needed",
-          res.canAskAgain
-            ? "We need photo access to continue."
-            : "Photo access is blocked. Enable it in Settings to continue.",
-          res.canAskAgain
-            ? [{ text: "OK" }]
-            : [
-                { text: "Cancel", style: "cancel" },
-                { text: "Open Settings", onPress: goToAppSettings },
-              ]
-        );
-        return;
-      }
-
-      navigation.navigate("GallerySwipe");
+      if (await ensureLibraryPermission()) next();
     } finally {
       setLoading(false);
     }
   };
 
+  const onStart = () => withPermission(() => navigation.navigate("GallerySwipe"));
+  const onChooseAlbum = () => withPermission(() => navigation.navigate("Albums"));
+  const onFindDuplicates = () => withPermission(() => navigation.navigate("Duplicates"));
+  const onBackup = () => withPermission(() => navigation.navigate("Backup"));
+
   return (
     <SafeAreaView style={[styles.safe, { backgroundColor: theme.colors.background }]}>
       <View style={styles.container}>
@@ -77,6 +105,66 @@ export default function LandingScreen({ navigation }: Props) {
             Start
           </Button>
 
+          <Button
+            mode="outlined"
+            onPress={onChooseAlbum}
+            disabled={loading}
+            contentStyle={styles.buttonContent}
+            style={styles.secondaryButton}
+          >
+            Album & date filters
+          </Button>
+
+          <Button
+            mode="outlined"
+            onPress={onFindDuplicates}
+            disabled={loading}
+            contentStyle={styles.buttonContent}
+            style={styles.secondaryButton}
+          >
+            Find duplicates
+          </Button>
+
+          <Button
+            mode="outlined"
+            onPress={() => navigation.navigate("History")}
+            disabled={loading}
+            contentStyle={styles.buttonContent}
+            style={styles.secondaryButton}
+          >
+            History
+          </Button>
+
+          <Button
+            mode="outlined"
+            onPress={() => navigation.navigate("Stats")}
+            disabled={loading}
+            contentStyle={styles.buttonContent}
+            style={styles.secondaryButton}
+          >
+            Stats
+          </Button>
+
+          <Button
+            mode="outlined"
+            onPress={onBackup}
+            disabled={loading}
+            contentStyle={styles.buttonContent}
+            style={styles.secondaryButton}
+          >
+            Backup & restore
+          </Button>
+
+          <Button
+            mode="outlined"
+            onPress={() => navigation.navigate("Settings")}
+            disabled={loading}
+            contentStyle={styles.buttonContent}
+            style={styles.secondaryButton}
+          >
+            Settings
+          </Button>
+
           <Text
             variant="labelSmall"
             style={[styles.footer, { color: theme.colors.onSurfaceVariant }]}
@@ -113,6 +201,9 @@ const styles = StyleSheet.create({
     marginTop: 8,
     borderRadius: 12,
   },
+  secondaryButton: {
+    borderRadius: 12,
+  },
   buttonContent: {
     paddingVertical: 8,
   },
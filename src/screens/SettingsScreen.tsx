@@ -0,0 +1,157 @@
+import * as React from "react";
+import { View, Text as RNText, Pressable, ScrollView, Switch } from "react-native";
+import {
+  PREFETCH_OPTIONS,
+  RECOUNT_OPTIONS,
+  Sensitivity,
+  Settings,
+  UNDO_OPTIONS,
+  updateSettings,
+  useSettings,
+} from "../settings";
+
+const SENSITIVITY_LABEL: Record<Sensitivity, string> = { low: "Low", medium: "Medium", high: "High" };
+
+function hoursLabel(hours: number): string {
+  if (hours % 24 === 0) return hours === 24 ? "1 day" : `${hours / 24} days`;
+  return hours === 1 ? "1 hour" : `${hours} hours`;
+}
+
+export default function SettingsScreen() {
+  const settings = useSettings();
+
+  const set = React.useCallback(<K extends keyof Settings>(key: K, value: Settings[K]) => {
+    void updateSettings({ [key]: value });
+  }, []);
+
+  return (
+    <ScrollView style={{ flex: 1, backgroundColor: "black" }} contentContainerStyle={{ padding: 12, gap: 18 }}>
+      <Section title="Swipe to trash" note="Swiping the other way skips; swiping up keeps.">
+        <Choices
+          options={["right", "left"] as const}
+          value={settings.trashDirection}
+          label={(d) => (d === "right" ? "Right" : "Left")}
+          onChange={(d) => set("trashDirection", d)}
+        />
+      </Section>
+
+      <Section title="Swipe sensitivity" note="How far a card has to travel before it counts.">
+        <Choices
+          options={["low", "medium", "high"] as const}
+          value={settings.sensitivity}
+          label={(s) => SENSITIVITY_LABEL[s]}
+          onChange={(s) => set("sensitivity", s)}
+        />
+      </Section>
+
+      <Toggle
+        title="Haptic feedback"
+        note="A short vibration on every decision."
+        value={settings.haptics}
+        onChange={(v) => set("haptics", v)}
+      />
+
+      <Toggle
+        title="Confirm before trash"
+        note="Ask before moving each photo to the trash."
+        value={settings.confirmBeforeTrash}
+        onChange={(v) => set("confirmBeforeTrash", v)}
+      />
+
+      <Section title="Prefetch depth" note="Upcoming photos loaded ahead. More is smoother on slow storage.">
+        <Choices
+          options={PREFETCH_OPTIONS}
+          value={settings.prefetchDepth}
+          label={String}
+          onChange={(n) => set("prefetchDepth", n)}
+        />
+      </Section>
+
+      <Section title="Undo depth" note="Decisions you can step back through without reloading.">
+        <Choices
+          options={UNDO_OPTIONS}
+          value={settings.undoDepth}
+          label={String}
+          onChange={(n) => set("undoDepth", n)}
+        />
+      </Section>
+
+      <Section title="Recount total after" note="Counting a large library is slow, so the total is cached.">
+        <Choices
+          options={RECOUNT_OPTIONS}
+          value={settings.recountAfterHours}
+          label={hoursLabel}
+          onChange={(n) => set("recountAfterHours", n)}
+        />
+      </Section>
+    </ScrollView>
+  );
+}
+
+function Section({ title, note, children }: { title: string; note: string; children: React.ReactNode }) {
+  return (
+    <View style={{ gap: 6 }}>
+      <RNText style={{ color: "white", fontSize: 16 }} accessibilityRole="header">
+        {title}
+      </RNText>
+      <RNText style={{ color: "rgba(255,255,255,0.6)", fontSize: 12 }}>{note}</RNText>
+      {children}
+    </View>
+  );
+}
+
+function Choices<T extends string | number>({
+  options,
+  value,
+  label,
+  onChange,
+}: {
+  options: readonly T[];
+  value: T;
+  label: (option: T) => string;
+  onChange: (option: T) => void;
+}) {
+  return (
+    <View style={{ flexDirection: "row", gap: 8 }} accessibilityRole="radiogroup">
+      {options.map((option) => (
+        <Pressable
+          key={String(option)}
+          onPress={() => onChange(option)}
+          accessibilityRole="radio"
+          accessibilityLabel={label(option)}
+          accessibilityState={{ checked: option === value }}
+          style={{
+            paddingHorizontal: 12,
+            paddingVertical: 8,
+            borderRadius: 12,
+            backgroundColor: option === value ? "#2f6fed" : "rgba(255,255,255,0.08)",
+          }}
+        >
+          <RNText style={{ color: "white" }}>{label(option)}</RNText>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+function Toggle({
+  title,
+  note,
+  value,
+  onChange,
+}: {
+  title: string;
+  note: string;
+  value: boolean;
+  onChange: (value: boolean) => void;
+}) {
+  return (
+    <View style={{ flexDirection: "row", alignItems: "center", gap: 12 }}>
+      <View style={{ flex: 1, gap: 6 }}>
+        <RNText style={{ color: "white", fontSize: 16 }}>{title}</RNText>
+        <RNText style={{ color: "rgba(255,255,255,0.6)", fontSize: 12 }}>{note}</RNText>
+      </View>
+      <Switch value={value} onValueChange={onChange} accessibilityLabel={title} />
+    </View>
+  );
+}
@@ -0,0 +1,110 @@
+import * as React from "react";
+import { View, Text as RNText, FlatList, Pressable, ActivityIndicator } from "react-native";
+import { readJournal, JournalEntry } from "../actionJournal";
+import { computeStats, StatsCounts, StatsPeriod } from "../reviewStats";
+import { formatBytes } from "../mediaAsset";
+
+function describeCounts(c: StatsCounts): string {
+  return `${c.reviewed} reviewed • ${c.trashed} trashed • ${c.kept} kept • ${c.deleted} deleted`;
+}
+
+function describeFreed(c: StatsCounts): string {
+  // Items deleted before we recorded sizes can't be counted, hence "at least".
+  return `${c.unknownSizes > 0 ? "at least " : ""}${formatBytes(c.bytesFreed)} freed`;
+}
+
+function describeBucket(start: number, period: StatsPeriod): string {
+  const day = new Date(start).toLocaleDateString();
+  return period === "week" ? `Week of ${day}` : day;
+}
+
+export default function StatsScreen() {
+  const [entries, setEntries] = React.useState<JournalEntry[] | null>(null);
+  const [period, setPeriod] = React.useState<StatsPeriod>("day");
+
+  React.useEffect(() => {
+    (async () => {
+      setEntries(await readJournal());
+    })();
+  }, []);
+
+  const stats = React.useMemo(() => (entries ? computeStats(entries, period) : null), [entries, period]);
+
+  if (!stats) {
+    return (
+      <View style={{ flex: 1, justifyContent: "center", alignItems: "center" }}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  const { totals } = stats;
+
+  return (
+    <View style={{ flex: 1, padding: 12, backgroundColor: "black" }}>
+      <View
+        style={{
+          padding: 12,
+          borderRadius: 12,
+          backgroundColor: "rgba(255,255,255,0.08)",
+          gap: 4,
+          marginBottom: 12,
+        }}
+      >
+        <RNText style={{ color: "white", fontSize: 18 }}>{totals.reviewed} photos reviewed</RNText>
+        <RNText style={{ color: "rgba(255,255,255,0.8)" }}>
+          {totals.trashed} trashed • {totals.kept} kept • {totals.deleted} deleted
+        </RNText>
+        <RNText style={{ color: "rgba(255,255,255,0.8)" }}>{describeFreed(totals)}</RNText>
+        <RNText style={{ color: "rgba(255,255,255,0.8)" }}>
+          {stats.perMinute !== null
+            ? `${stats.perMinute.toFixed(1)} per minute over ${Math.round(stats.activeMs / 60000)} min of swiping`
+            : "Swipe a few photos to see your speed"}
+        </RNText>
+      </View>
+
+      <View style={{ flexDirection: "row", gap: 8, marginBottom: 12 }}>
+        {(["day", "week"] as const).map((p) => (
+          <Pressable
+            key={p}
+            onPress={() => setPeriod(p)}
+            accessibilityRole="button"
+            accessibilityLabel={p === "day" ? "Per day" : "Per week"}
+            accessibilityState={{ selected: period === p }}
+            style={{
+              paddingHorizontal: 12,
+              paddingVertical: 8,
+              borderRadius: 12,
+              backgroundColor: period === p ? "rgba(255,255,255,0.25)" : "rgba(255,255,255,0.1)",
+              borderWidth: 1,
+              borderColor: "rgba(255,255,255,0.2)",
+            }}
+          >
+            <RNText style={{ color: "white" }}>{p === "day" ? "Per day" : "Per week"}</RNText>
+          </Pressable>
+        ))}
+      </View>
+
+      {stats.buckets.length === 0 ? (
+        <View style={{ flex: 1, justifyContent: "center", alignItems: "center" }}>
+          <RNText style={{ color: "rgba(255,255,255,0.7)" }}>No activity yet.</RNText>
+        </View>
+      ) : (
+        <FlatList
+          data={stats.buckets}
+          keyExtractor={(b) => String(b.start)}
+          contentContainerStyle={{ gap: 10, paddingBottom: 20 }}
+          renderItem={({ item }) => (
+            <View>
+              <RNText style={{ color: "white" }}>{describeBucket(item.start, period)}</RNText>
+              <RNText style={{ color: "rgba(255,255,255,0.6)", fontSize: 12 }}>{describeCounts(item)}</RNText>
+              {item.deleted > 0 ? (
+                <RNText style={{ color: "rgba(255,255,255,0.6)", fontSize: 12 }}>{describeFreed(item)}</RNText>
+              ) : null}
+            </View>
+          )}
+        />
+      )}
+    </View>
+  );
+}
@@ -7,90 +7,339 @@ import {
   Pressable,
   Alert,
   ActivityIndicator,
+  Modal,
 } from "react-native";
-import { CameraRoll } from "@react-native-camera-roll/camera-roll";
-import { clearTrash, getTrashSet, removeFromTrash, setTrashSet } from "../trashStore";
+import { NativeStackScreenProps } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../../App";
+import { entryAsset, getTrashEntries, removeFromTrash, removeManyFromTrash, TrashEntry } from "../trashStore";
+import { appendJournalBatch } from "../actionJournal";
+import { formatBytes, formatDuration } from "../mediaAsset";
+import { fetchMissingSizes, missingSizes } from "../trashSizes";
+import { findMissingUris, RECONCILE_INTERVAL_MS } from "../assetExistence";
+import { deleteTrashEntries, DeleteResult, forgetGoneEntries } from "../trashDeletion";
+import {
+  daysLeft,
+  getRetentionDays,
+  RETENTION_OPTIONS,
+  RetentionDays,
+  retentionLabel,
+  setRetentionDays,
+} from "../trashRetention";
+
+function describeEntry(e: TrashEntry): string {
+  const parts: string[] = [];
+  if (e.filename) parts.push(e.filename);
+  if (e.capturedAt) parts.push(new Date(e.capturedAt).toLocaleDateString());
+  if (e.fileSize) parts.push(formatBytes(e.fileSize));
+  return parts.join(" • ");
+}
+
+type TrashSort = "trashed" | "largest" | "captured";
+
+const SORT_LABEL: Record<TrashSort, string> = {
+  trashed: "Oldest trashed",
+  largest: "Largest",
+  captured: "Capture date",
+};
+
+// Unknown sizes / dates sort last.
+function sortEntries(entries: TrashEntry[], sort: TrashSort): TrashEntry[] {
+  const out = [...entries];
+  if (sort === "trashed") out.sort((a, b) => a.trashedAt - b.trashedAt);
+  if (sort === "largest") out.sort((a, b) => (b.fileSize ?? -1) - (a.fileSize ?? -1));
+  if (sort === "captured") out.sort((a, b) => (b.capturedAt ?? -Infinity) - (a.capturedAt ?? -Infinity));
+  return out;
+}
+
+function totalBytes(entries: TrashEntry[]): number {
+  return entries.reduce((sum, e) => sum + (e.fileSize ?? 0), 0);
+}
+
+function describeFreed(entries: TrashEntry[]): string {
+  const unknown = missingSizes(entries).length;
+  return `${formatBytes(totalBytes(entries))} will be freed${unknown > 0 ? ` (+${unknown} of unknown size)` : ""}`;
+}
 
-type PhotoItem = { uri: string };
+function journalEntries(kind: "recover" | "delete", entries: TrashEntry[]) {
+  return appendJournalBatch(entries.map((e) => ({ kind, asset: entryAsset(e) })));
+}
 
-export default function TrashScreen() {
-  const [items, setItems] = React.useState<PhotoItem[] | null>(null);
+const MAX_LISTED_FAILURES = 10;
+
+// "IMG_1.jpg, IMG_2.jpg: reason" lines, one per distinct reason
+function describeFailures(result: DeleteResult, targets: TrashEntry[]): string[] {
+  const names = new Map(targets.map((e) => [e.uri, e.filename ?? e.uri]));
+  const byReason = new Map<string, string[]>();
+  for (const f of result.failed) byReason.set(f.reason, [...(byReason.get(f.reason) ?? []), names.get(f.uri) ?? f.uri]);
+  return [...byReason].map(([reason, list]) => {
+    const shown = list.slice(0, MAX_LISTED_FAILURES).join(", ");
+    const more = list.length > MAX_LISTED_FAILURES ? ` and ${list.length - MAX_LISTED_FAILURES} more` : "";
+    return `${shown}${more}: ${reason}`;
+  });
+}
+
+type Props = NativeStackScreenProps<RootStackParamList, "Trash">;
+
+export default function TrashScreen({ navigation }: Props) {
+  const [entries, setEntries] = React.useState<TrashEntry[] | null>(null);
   const [busy, setBusy] = React.useState(false);
+  const [retention, setRetention] = React.useState<RetentionDays>(null);
+  const [retentionOpen, setRetentionOpen] = React.useState(false);
+  const [sort, setSort] = React.useState<TrashSort>("trashed");
+  const [sizing, setSizing] = React.useState(false);
+  const items = React.useMemo(() => (entries ? sortEntries(entries, sort) : null), [entries, sort]);
+
+  // Selection mode (null = off). `anchor` is the last touched index, for range select.
+  const [selected, setSelected] = React.useState<Set<string> | null>(null);
+  const [anchor, setAnchor] = React.useState<number | null>(null);
+
+  // Trashed items that were deleted outside the app
+  const [gone, setGone] = React.useState<Set<string>>(new Set());
+  const [checking, setChecking] = React.useState(false);
+  const checkingRef = React.useRef(false);
+  const lastCheck = React.useRef(0);
+
+  // Permanent deletion: progress while running, then what happened (kept for retry)
+  const [deleting, setDeleting] = React.useState<{ done: number; total: number } | null>(null);
+  const [deleteOutcome, setDeleteOutcome] = React.useState<{ result: DeleteResult; targets: TrashEntry[] } | null>(
+    null
+  );
 
   const loadTrash = React.useCallback(async () => {
-    const s = await getTrashSet();
-    setItems([...s].map((uri) => ({ uri })));
+    const [loaded, days] = await Promise.all([getTrashEntries(), getRetentionDays()]);
+    setRetention(days);
+    setEntries(loaded);
+  }, []);
+
+  const chooseRetention = React.useCallback(async (days: RetentionDays) => {
+    setRetentionOpen(false);
+    setRetention(days);
+    await setRetentionDays(days);
   }, []);
 
   React.useEffect(() => {
     void loadTrash();
   }, [loadTrash]);
 
+  const checkGone = React.useCallback(async (force: boolean) => {
+    if (checkingRef.current) return;
+    if (!force && Date.now() - lastCheck.current < RECONCILE_INTERVAL_MS) return;
+    checkingRef.current = true;
+    lastCheck.current = Date.now();
+    setChecking(true);
+    try {
+      const current = await getTrashEntries();
+      setGone(await findMissingUris(current.map((e) => e.uri)));
+    } catch {
+      // couldn't read the library; leave the flags as they were
+    } finally {
+      checkingRef.current = false;
+      setChecking(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    const unsub = navigation.addListener("focus", () => {
+      void loadTrash();
+      void checkGone(false);
+    });
+    return unsub;
+  }, [checkGone, loadTrash, navigation]);
+
+  // Nothing to delete for these any more; just drop them from the list.
+  const removeGone = React.useCallback(async () => {
+    setBusy(true);
+    try {
+      await forgetGoneEntries((await getTrashEntries()).filter((e) => gone.has(e.uri)));
+      setGone(new Set());
+      await loadTrash();
+    } catch (e: any) {
+      Alert.alert("Couldn't update the trash", e?.message ?? "Could not remove the missing items.");
+    } finally {
+      setBusy(false);
+    }
+  }, [gone, loadTrash]);
+
+  // Look up sizes we don't have yet, once per visit, without blocking the list.
+  React.useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const current = await getTrashEntries();
+      if (missingSizes(current).length === 0) return;
+      setSizing(true);
+      try {
+        const filled = await fetchMissingSizes(current);
+        if (filled > 0 && !cancelled) await loadTrash();
+      } catch {
+        // sizes are a nice-to-have; the total just stays partial
+      } finally {
+        if (!cancelled) setSizing(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [loadTrash]);
+
+  const chooseSort = React.useCallback((next: TrashSort) => {
+    setSort(next);
+    // range selection works on list indices, which are about to move
+    setAnchor(null);
+  }, []);
+
+  const pickEntries = React.useCallback(
+    (uris: Iterable<string>) => {
+      const pick = new Set(uris);
+      return (items ?? []).filter((e) => pick.has(e.uri));
+    },
+    [items]
+  );
+
   const recover = React.useCallback(async (uri: string) => {
     setBusy(true);
     try {
       await removeFromTrash(uri);
+      await journalEntries("recover", pickEntries([uri]));
       await loadTrash();
+    } catch (e: any) {
+      Alert.alert("Recover failed", e?.message ?? "Could not recover this item.");
     } finally {
       setBusy(false);
     }
-  }, [loadTrash]);
+  }, [loadTrash, pickEntries]);
 
-  const deleteAll = React.useCallback(async () => {
-    const s = await getTrashSet();
-    const uris = [...s];
-    if (uris.length === 0) return;
+  const exitSelection = React.useCallback(() => {
+    setSelected(null);
+    setAnchor(null);
+  }, []);
+
+  // Long-press enters selection mode; once in it, long-press selects the range from the last touched item.
+  const onLongPressItem = React.useCallback(
+    (index: number) => {
+      if (!items) return;
+      const uri = items[index].uri;
+      if (!selected || anchor === null) {
+        setSelected(new Set([uri]));
+        setAnchor(index);
+        return;
+      }
+      const next = new Set(selected);
+      const [from, to] = anchor < index ? [anchor, index] : [index, anchor];
+      for (let i = from; i <= to; i++) next.add(items[i].uri);
+      setSelected(next);
+      setAnchor(index);
+    },
+    [anchor, items, selected]
+  );
+
+  const togglePicked = React.useCallback(
+    (index: number) => {
+      if (!items || !selected) return;
+      const uri = items[index].uri;
+      const next = new Set(selected);
+      if (next.has(uri)) next.delete(uri);
+      else next.add(uri);
+      setSelected(next);
+      setAnchor(index);
+    },
+    [items, selected]
+  );
+
+  const selectAll = React.useCallback(() => {
+    setSelected(new Set((items ?? []).map((e) => e.uri)));
+  }, [items]);
+
+  const selectNone = React.useCallback(() => {
+    setSelected(new Set());
+    setAnchor(null);
+  }, []);
+
+  const recoverSelected = React.useCallback(async () => {
+    if (!selected || selected.size === 0) return;
+    setBusy(true);
+    try {
+      await removeManyFromTrash([...selected]);
+      await journalEntries("recover", pickEntries(selected));
+      exitSelection();
+      await loadTrash();
+    } catch (e: any) {
+      Alert.alert("Recover failed", e?.message ?? "Could not recover the selected items.");
+    } finally {
+      setBusy(false);
+    }
+  }, [exitSelection, loadTrash, pickEntries, selected]);
+
+  // Anything that wasn't confirmed gone stays in the trash; the summary offers to try those again.
+  const runDelete = React.useCallback(
+    async (targets: TrashEntry[]) => {
+      if (targets.length === 0) return;
+      setBusy(true);
+      setDeleteOutcome(null);
+      setDeleting({ done: 0, total: targets.length });
+      try {
+        const result = await deleteTrashEntries(targets, {
+          onProgress: (done, total) => setDeleting({ done, total }),
+        });
+        if (targets.length > 1 || result.deleted.length < targets.length) setDeleteOutcome({ result, targets });
+      } catch (e: any) {
+        Alert.alert("Delete failed", e?.message ?? "Could not delete the items.");
+      } finally {
+        setDeleting(null);
+        setBusy(false);
+        await loadTrash();
+      }
+    },
+    [loadTrash]
+  );
+
+  const retryDelete = React.useCallback(() => {
+    if (!deleteOutcome) return;
+    const { result, targets } = deleteOutcome;
+    const left = new Set([...result.failed.map((f) => f.uri), ...result.cancelled]);
+    void runDelete(targets.filter((e) => left.has(e.uri)));
+  }, [deleteOutcome, runDelete]);
+
+  const deleteSelected = React.useCallback(() => {
+    if (!selected || selected.size === 0) return;
+    const targets = pickEntries(selected);
 
     Alert.alert(
-      "Delete all trashed photos?",
+      `Delete ${targets.length} item${targets.length === 1 ? "" : "s"}?`,
       "This will delete them from your device. Android may ask for confirmation.",
       [
         { text: "Cancel", style: "cancel" },
         {
-          text: "Delete all",
+          text: "Delete",
           style: "destructive",
           onPress: async () => {
-            setBusy(true);
-            try {
-              // One call; may still trigger system confirmation UI.
-              await CameraRoll.deletePhotos(uris);
-              await clearTrash();
-              await loadTrash();
-            } catch (e: any) {
-              Alert.alert("Delete failed", e?.message ?? "Could not delete all.");
-            } finally {
-              setBusy(false);
-            }
+            exitSelection();
+            await runDelete(targets);
           },
         },
       ]
     );
-  }, [loadTrash]);
+  }, [exitSelection, pickEntries, runDelete, selected]);
+
+  const deleteAll = React.useCallback(async () => {
+    const all = await getTrashEntries();
+    if (all.length === 0) return;
+
+    Alert.alert(
+      "Delete all trashed items?",
+      "This will delete them from your device. Android may ask for confirmation.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Delete all", style: "destructive", onPress: () => void runDelete(all) },
+      ]
+    );
+  }, [runDelete]);
 
   const deleteOneNow = React.useCallback(async (uri: string) => {
-    Alert.alert("Delete this photo now?", "Android may ask for confirmation.", [
+    Alert.alert("Delete this item now?", "Android may ask for confirmation.", [
       { text: "Cancel", style: "cancel" },
-      {
-        text: "Delete",
-        style: "destructive",
-        onPress: async () => {
-          setBusy(true);
-          try {
-            await CameraRoll.deletePhotos([uri]);
-            // remove from trash list if deletion succeeded
-            const s = await getTrashSet();
-            s.delete(uri);
-            await setTrashSet(s);
-            await loadTrash();
-          } catch (e: any) {
-            Alert.alert("Delete failed", e?.message ?? "Could not delete this photo.");
-          } finally {
-            setBusy(false);
-          }
-        },
-      },
+      { text: "Delete", style: "destructive", onPress: () => void runDelete(pickEntries([uri])) },
     ]);
-  }, [loadTrash]);
+  }, [pickEntries, runDelete]);
 
   if (!items) {
     return (
@@ -102,26 +351,119 @@ export default function TrashScreen() {
 
   return (
     <View style={{ flex: 1, padding: 12, backgroundColor: "black" }}>
-      <View style={{ flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 12 }}>
-        <RNText style={{ color: "white", fontSize: 18 }}>
-          Trash ({items.length}) {busy ? "• working…" : ""}
-        </RNText>
+      {selected ? (
+        <View style={{ flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 12 }}>
+          <View>
+            <RNText style={{ color: "white", fontSize: 18 }}>
+              {selected.size} selected {busy ? "• working…" : ""}
+            </RNText>
+            <RNText style={{ color: "rgba(255,255,255,0.6)", fontSize: 12, marginTop: 2 }}>
+              {describeFreed(pickEntries(selected))}
+            </RNText>
+          </View>
+
+          <View style={{ flexDirection: "row", gap: 8 }}>
+            <HeaderButton label="All" onPress={selectAll} disabled={busy} />
+            <HeaderButton label="None" onPress={selectNone} disabled={busy} />
+            <HeaderButton label="Done" onPress={exitSelection} disabled={busy} />
+          </View>
+        </View>
+      ) : (
+        <View style={{ flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 12 }}>
+          <View>
+            <RNText style={{ color: "white", fontSize: 18 }}>
+              Trash ({items.length}) {busy ? "• working…" : ""}
+            </RNText>
+            {items.length > 0 ? (
+              <RNText style={{ color: "rgba(255,255,255,0.8)", fontSize: 12, marginTop: 2 }}>
+                {describeFreed(items)}
+                {sizing ? " • sizing…" : ""}
+              </RNText>
+            ) : null}
+            <Pressable
+              onPress={() => setRetentionOpen(true)}
+              accessibilityRole="button"
+              accessibilityLabel={`Auto-delete after ${retentionLabel(retention)}. Change`}
+            >
+              <RNText style={{ color: "rgba(255,255,255,0.6)", fontSize: 12, marginTop: 2 }}>
+                Auto-delete after: {retentionLabel(retention)} ›
+              </RNText>
+            </Pressable>
+            {items.length > 0 ? (
+              <Pressable
+                onPress={() => checkGone(true)}
+                disabled={checking}
+                accessibilityRole="button"
+                accessibilityLabel={checking ? "Checking for deleted items" : "Check for items deleted outside the app"}
+                accessibilityState={{ disabled: checking, busy: checking }}
+              >
+                <RNText style={{ color: "rgba(255,255,255,0.6)", fontSize: 12, marginTop: 2 }}>
+                  {checking ? "Checking for deleted items…" : "Check for deleted items ›"}
+                </RNText>
+              </Pressable>
+            ) : null}
+          </View>
+
+          <Pressable
+            onPress={deleteAll}
+            disabled={busy || items.length === 0}
+            accessibilityRole="button"
+            accessibilityLabel={`Delete all ${items.length} items permanently`}
+            accessibilityState={{ disabled: busy || items.length === 0 }}
+            style={{
+              paddingHorizontal: 12,
+              paddingVertical: 8,
+              borderRadius: 12,
+              backgroundColor: items.length === 0 ? "rgba(255,255,255,0.1)" : "rgba(255,0,0,0.25)",
+              borderWidth: 1,
+              borderColor: "rgba(255,0,0,0.35)",
+            }}
+          >
+            <RNText style={{ color: "white" }}>Delete all</RNText>
+          </Pressable>
+        </View>
+      )}
 
-        <Pressable
-          onPress={deleteAll}
-          disabled={busy || items.length === 0}
+      {gone.size > 0 ? (
+        <View
           style={{
-            paddingHorizontal: 12,
-            paddingVertical: 8,
+            flexDirection: "row",
+            justifyContent: "space-between",
+            alignItems: "center",
+            padding: 10,
             borderRadius: 12,
-            backgroundColor: items.length === 0 ? "rgba(255,255,255,0.1)" : "rgba(255,0,0,0.25)",
-            borderWidth: 1,
-            borderColor: "rgba(255,0,0,0.35)",
+            marginBottom: 12,
+            backgroundColor: "rgba(255,180,0,0.15)",
           }}
         >
-          <RNText style={{ color: "white" }}>Delete all</RNText>
-        </Pressable>
-      </View>
+          <RNText style={{ color: "white", flex: 1 }}>
+            {gone.size} item{gone.size === 1 ? " no longer exists" : "s no longer exist"} on this device.
+          </RNText>
+          <HeaderButton label="Remove" onPress={removeGone} disabled={busy} />
+        </View>
+      ) : null}
+
+      {items.length > 1 ? (
+        <View style={{ flexDirection: "row", gap: 8, marginBottom: 12 }}>
+          {(Object.keys(SORT_LABEL) as TrashSort[]).map((key) => (
+            <Pressable
+              key={key}
+              onPress={() => chooseSort(key)}
+              accessibilityRole="button"
+              accessibilityLabel={`Sort by ${SORT_LABEL[key].toLowerCase()}`}
+              accessibilityState={{ selected: sort === key }}
+              style={{
+                paddingHorizontal: 10,
+                paddingVertical: 6,
+                borderRadius: 10,
+                backgroundColor: sort === key ? "#2f6fed" : "rgba(255,255,255,0.08)",
+              }}
+            >
+              <RNText style={{ color: "white", fontSize: 12 }}>{SORT_LABEL[key]}</RNText>
+            </Pressable>
+          ))}
+        </View>
+      ) : null}
 
       {items.length === 0 ? (
         <View style={{ flex: 1, justifyContent: "center", alignItems: "center" }}>
@@ -134,18 +476,94 @@ export default function TrashScreen() {
           numColumns={3}
           columnWrapperStyle={{ gap: 8 }}
           contentContainerStyle={{ gap: 8, paddingBottom: 20 }}
-          renderItem={({ item }) => (
+          extraData={[selected, gone]}
+          renderItem={({ item, index }) => (
             <View style={{ flex: 1, aspectRatio: 1, gap: 6 }}>
-              <Pressable onPress={() => recover(item.uri)} disabled={busy}>
-                <Image source={{ uri: item.uri }} style={{ width: "100%", height: "100%", borderRadius: 10 }} />
+              <Pressable
+                onPress={() => (selected ? togglePicked(index) : recover(item.uri))}
+                onLongPress={() => onLongPressItem(index)}
+                disabled={busy}
+                accessibilityRole={selected ? "checkbox" : "button"}
+                accessibilityLabel={`${item.kind === "video" ? "Video" : "Photo"} ${describeEntry(item) || ""}`.trim()}
+                accessibilityHint={selected ? "Toggles selection" : "Recovers this item. Long-press to select several."}
+                accessibilityState={selected ? { checked: selected.has(item.uri), disabled: busy } : { disabled: busy }}
+              >
+                {gone.has(item.uri) ? (
+                  <View
+                    style={{
+                      width: "100%",
+                      height: "100%",
+                      borderRadius: 10,
+                      borderWidth: selected?.has(item.uri) ? 3 : 0,
+                      borderColor: "#2f6fed",
+                      justifyContent: "center",
+                      alignItems: "center",
+                      backgroundColor: "rgba(255,255,255,0.08)",
+                    }}
+                  >
+                    <RNText style={{ color: "rgba(255,255,255,0.6)", fontSize: 11, textAlign: "center" }}>
+                      No longer exists
+                    </RNText>
+                  </View>
+                ) : (
+                  <Image
+                    source={{ uri: item.uri }}
+                    style={{
+                      width: "100%",
+                      height: "100%",
+                      borderRadius: 10,
+                      borderWidth: selected?.has(item.uri) ? 3 : 0,
+                      borderColor: "#2f6fed",
+                      opacity: selected && !selected.has(item.uri) ? 0.6 : 1,
+                    }}
+                    onError={() => checkGone(true)}
+                  />
+                )}
+                {selected?.has(item.uri) ? (
+                  <RNText style={{ position: "absolute", top: 6, right: 8, color: "white", fontSize: 16 }}>✓</RNText>
+                ) : null}
+                <DaysLeftBadge left={daysLeft(item, retention)} />
+                {item.kind === "video" ? (
+                  <View
+                    style={{
+                      position: "absolute",
+                      bottom: 6,
+                      right: 6,
+                      paddingHorizontal: 6,
+                      paddingVertical: 2,
+                      borderRadius: 8,
+                      backgroundColor: "rgba(0,0,0,0.6)",
+                    }}
+                  >
+                    <RNText style={{ color: "white", fontSize: 10 }}>
+                      ▶ {item.duration ? formatDuration(item.duration) : "video"}
+                    </RNText>
+                  </View>
+                ) : null}
               </Pressable>
 
-              <View style={{ flexDirection: "row", justifyContent: "space-between" }}>
-                <Pressable onPress={() => recover(item.uri)} disabled={busy}>
+              {describeEntry(item) ? (
+                <RNText numberOfLines={1} style={{ color: "rgba(255,255,255,0.6)", fontSize: 11 }}>
+                  {describeEntry(item)}
+                </RNText>
+              ) : null}
+
+              <View style={{ flexDirection: "row", justifyContent: "space-between", opacity: selected ? 0.3 : 1 }}>
+                <Pressable
+                  onPress={() => recover(item.uri)}
+                  disabled={busy || !!selected}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Recover ${item.filename ?? "this item"}`}
+                >
                   <RNText style={{ color: "rgba(255,255,255,0.85)", fontSize: 12 }}>Recover</RNText>
                 </Pressable>
 
-                <Pressable onPress={() => deleteOneNow(item.uri)} disabled={busy}>
+                <Pressable
+                  onPress={() => deleteOneNow(item.uri)}
+                  disabled={busy || !!selected}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Delete ${item.filename ?? "this item"} permanently`}
+                >
                   <RNText style={{ color: "rgba(255,120,120,0.95)", fontSize: 12 }}>Delete</RNText>
                 </Pressable>
               </View>
@@ -154,9 +572,162 @@ export default function TrashScreen() {
         />
       )}
 
-      <RNText style={{ color: "rgba(255,255,255,0.5)", marginTop: 8, fontSize: 12 }}>
-        Tip: Tap a photo to recover it.
-      </RNText>
+      {selected ? (
+        <View style={{ flexDirection: "row", gap: 8, marginTop: 8 }}>
+          <Pressable
+            onPress={recoverSelected}
+            disabled={busy || selected.size === 0}
+            accessibilityRole="button"
+            accessibilityLabel={`Recover ${selected.size} selected`}
+            accessibilityState={{ disabled: busy || selected.size === 0 }}
+            style={{ flex: 1, alignItems: "center", paddingVertical: 10, borderRadius: 12, backgroundColor: "rgba(255,255,255,0.15)" }}
+          >
+            <RNText style={{ color: "white" }}>Recover selected</RNText>
+          </Pressable>
+          <Pressable
+            onPress={deleteSelected}
+            disabled={busy || selected.size === 0}
+            accessibilityRole="button"
+            accessibilityLabel={`Delete ${selected.size} selected permanently`}
+            accessibilityState={{ disabled: busy || selected.size === 0 }}
+            style={{ flex: 1, alignItems: "center", paddingVertical: 10, borderRadius: 12, backgroundColor: "rgba(255,0,0,0.25)" }}
+          >
+            <RNText style={{ color: "white" }}>Delete selected</RNText>
+          </Pressable>
+        </View>
+      ) : (
+        <RNText style={{ color: "rgba(255,255,255,0.5)", marginTop: 8, fontSize: 12 }}>
+          Tip: Tap an item to recover it. Long-press to select several.
+        </RNText>
+      )}
+
+      {/* Deletion progress / result */}
+      <Modal
+        visible={!!deleting || !!deleteOutcome}
+        transparent
+        animationType="fade"
+        onRequestClose={() => !deleting && setDeleteOutcome(null)}
+      >
+        <View style={{ flex: 1, backgroundColor: "rgba(0,0,0,0.6)", justifyContent: "center", padding: 16 }}>
+          <View style={{ backgroundColor: "#111", borderRadius: 16, padding: 16, gap: 8 }}>
+            {deleting ? (
+              <>
+                <RNText style={{ color: "white", fontSize: 16, fontWeight: "700" }} accessibilityLiveRegion="polite">
+                  Deleting {deleting.done}/{deleting.total}…
+                </RNText>
+                <View style={{ height: 6, borderRadius: 3, backgroundColor: "rgba(255,255,255,0.15)" }}>
+                  <View
+                    style={{
+                      height: 6,
+                      borderRadius: 3,
+                      width: `${Math.round((deleting.done / Math.max(1, deleting.total)) * 100)}%`,
+                      backgroundColor: "rgba(255,80,80,0.9)",
+                    }}
+                  />
+                </View>
+                <RNText style={{ color: "rgba(255,255,255,0.6)", fontSize: 12 }}>
+                  Large deletes go in batches; your device may ask to confirm each one.
+                </RNText>
+              </>
+            ) : deleteOutcome ? (
+              <>
+                <RNText style={{ color: "white", fontSize: 16, fontWeight: "700" }}>
+                  Deleted {deleteOutcome.result.deleted.length} of {deleteOutcome.targets.length}
+                </RNText>
+                {deleteOutcome.result.cancelled.length > 0 ? (
+                  <RNText style={{ color: "rgba(255,255,255,0.75)" }}>
+                    Deletion was cancelled; {deleteOutcome.result.cancelled.length} item
+                    {deleteOutcome.result.cancelled.length === 1 ? " is" : "s are"} still in the trash.
+                  </RNText>
+                ) : null}
+                {deleteOutcome.result.failed.length > 0 ? (
+                  <>
+                    <RNText style={{ color: "rgba(255,180,120,0.95)" }}>
+                      {deleteOutcome.result.failed.length} couldn't be deleted and stay in the trash:
+                    </RNText>
+                    {describeFailures(deleteOutcome.result, deleteOutcome.targets).map((line) => (
+                      <RNText key={line} style={{ color: "rgba(255,255,255,0.6)", fontSize: 12 }}>
+                        {line}
+                      </RNText>
+                    ))}
+                  </>
+                ) : null}
+
+                <View style={{ flexDirection: "row", justifyContent: "flex-end", gap: 8, marginTop: 8 }}>
+                  {deleteOutcome.result.failed.length + deleteOutcome.result.cancelled.length > 0 ? (
+                    <HeaderButton label="Retry" onPress={retryDelete} />
+                  ) : null}
+                  <HeaderButton label="Close" onPress={() => setDeleteOutcome(null)} />
+                </View>
+              </>
+            ) : null}
+          </View>
+        </View>
+      </Modal>
+
+      {/* Retention picker */}
+      <Modal visible={retentionOpen} transparent animationType="fade" onRequestClose={() => setRetentionOpen(false)}>
+        <View style={{ flex: 1, backgroundColor: "rgba(0,0,0,0.6)", justifyContent: "center", padding: 16 }}>
+          <View style={{ backgroundColor: "#111", borderRadius: 16, padding: 16, gap: 8 }}>
+            <RNText style={{ color: "white", fontSize: 16, fontWeight: "700" }}>Auto-delete trash</RNText>
+            <RNText style={{ color: "rgba(255,255,255,0.75)" }}>
+              When the app starts, offer to delete photos that have been in the trash longer than this.
+            </RNText>
+
+            {RETENTION_OPTIONS.map((days) => (
+              <Pressable
+                key={String(days)}
+                onPress={() => chooseRetention(days)}
+                accessibilityRole="radio"
+                accessibilityLabel={retentionLabel(days)}
+                accessibilityState={{ checked: days === retention }}
+                style={{
+                  paddingHorizontal: 12,
+                  paddingVertical: 10,
+                  borderRadius: 12,
+                  backgroundColor: days === retention ? "#2f6fed" : "rgba(255,255,255,0.08)",
+                }}
+              >
+                <RNText style={{ color: "white" }}>{retentionLabel(days)}</RNText>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+function HeaderButton({ label, onPress, disabled }: { label: string; onPress: () => void; disabled?: boolean }) {
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={disabled}
+      accessibilityRole="button"
+      accessibilityLabel={label}
+      accessibilityState={{ disabled: !!disabled }}
+      style={{ paddingHorizontal: 10, paddingVertical: 6, borderRadius: 10, backgroundColor: "rgba(255,255,255,0.15)" }}
+    >
+      <RNText style={{ color: "white" }}>{label}</RNText>
+    </Pressable>
+  );
+}
+
+function DaysLeftBadge({ left }: { left: number | null }) {
+  if (left === null) return null;
+  return (
+    <View
+      style={{
+        position: "absolute",
+        top: 6,
+        left: 6,
+        paddingHorizontal: 6,
+        paddingVertical: 2,
+        borderRadius: 8,
+        backgroundColor: left <= 1 ? "rgba(255,0,0,0.6)" : "rgba(0,0,0,0.6)",
+      }}
+    >
+      <RNText style={{ color: "white", fontSize: 10 }}>{left === 0 ? "Expired" : `${left}d left`}</RNText>
     </View>
   );
 }
\ No newline at end of file
@@ -0,0 +1,205 @@
+// asyncSessionStorage.ts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { appendJournal, appendJournalBatch, appendJournalGroup, JournalEntry, recentUndoable } from "../actionJournal";
+import { ensureSchema, KEYS, readDoc, removeDocs, withSuffix, writeDocs } from "../storage";
+import { addToTrash, entryAsset, getTrashEntries, getTrashSet, removeFromTrash } from "../trashStore";
+import { addToKeep, getKeepEntries, getKeepSet, removeFromKeep } from "../keepStore";
+import { MediaAsset, parseAsset } from "../mediaAsset";
+import {
+  anchorOf,
+  batchAction,
+  CachedTotal,
+  CountProgress,
+  ProgressAnchor,
+  SavedProgress,
+  SessionAction,
+  SessionStorage,
+} from "./sessionEngine";
+import { SessionScope, scopeKey } from "./sessionScope";
+
+// One document per scope each; see storage.ts
+function parseAnchor(x: unknown): ProgressAnchor | null {
+  if (!x || typeof x !== "object") return null;
+  const o = x as Record<string, unknown>;
+  if (typeof o.id !== "string" || typeof o.capturedAt !== "number" || !Number.isFinite(o.capturedAt)) return null;
+  return { id: o.id, capturedAt: o.capturedAt };
+}
+
+// Snapshots from before anchors load without one; the next save adds it.
+function parseSnapshot(x: unknown): SavedProgress | null {
+  if (!x || typeof x !== "object") return null;
+  const o = x as Record<string, unknown>;
+  if (typeof o.pos !== "number" || !Number.isInteger(o.pos) || o.pos < 0 || !Array.isArray(o.queue)) return null;
+  if (o.after !== null && typeof o.after !== "string") return null;
+  return {
+    pos: o.pos,
+    queue: o.queue.map(parseAsset).filter((a): a is MediaAsset => a !== null),
+    after: o.after || null,
+    anchor: parseAnchor(o.anchor),
+  };
+}
+
+function toAction(e: JournalEntry): SessionAction {
+  return { id: e.id, kind: e.kind as SessionAction["kind"], asset: e.asset, pos: e.pos ?? 0 };
+}
+
+const finite = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+function parseProgress(x: unknown): CountProgress | null {
+  if (!x || typeof x !== "object") return null;
+  const o = x as Record<string, unknown>;
+  if (!finite(o.counted) || !Number.isInteger(o.counted) || o.counted < 0 || typeof o.after !== "string") return null;
+  return { counted: o.counted, after: o.after, newest: finite(o.newest) ? o.newest : null };
+}
+
+function parseTotal(x: unknown): CachedTotal | null {
+  if (!x || typeof x !== "object") return null;
+  const o = x as Record<string, unknown>;
+  if (!finite(o.total) || !finite(o.ts)) return null;
+  const total: CachedTotal = { total: o.total, ts: o.ts };
+  if (finite(o.newest)) total.newest = o.newest;
+  const partial = parseProgress(o.partial);
+  if (partial) total.partial = partial;
+  return total;
+}
+
+/** A scope's last counted total, if it has one (e.g. to label album rows). */
+export async function cachedTotal(scope: SessionScope): Promise<CachedTotal | null> {
+  await ensureSchema();
+  const res = await readDoc(withSuffix(KEYS.total, scopeKey(scope)), parseTotal);
+  return res.status === "ok" && res.value.ts > 0 ? res.value : null;
+}
+
+/**
+ * After deleting from the library every scope's total is off by an unknown amount (we
+ * don't know which albums the deleted items were in), so all of them get recounted.
+ * The numbers stay on screen until then.
+ */
+export async function markTotalsStale() {
+  await ensureSchema();
+  const keys = (await AsyncStorage.getAllKeys()).filter(
+    (k) => k === KEYS.total || (k.startsWith(`${KEYS.total}:`) && !k.endsWith(":corrupt"))
+  );
+  const docs: [string, CachedTotal][] = [];
+  for (const key of keys) {
+    const res = await readDoc(key, parseTotal);
+    if (res.status === "ok") docs.push([key, { ...res.value, ts: 0, partial: null }]);
+  }
+  if (docs.length > 0) await writeDocs(docs);
+}
+
+export type SavedPosition = {
+  scope: string; // scopeKey()
+  pos: number;
+  anchor: MediaAsset | null; // the item it stopped at, with what's needed to find it elsewhere
+};
+
+/** Saved position of every scope that has one, keyed by scopeKey(). Used for backups. */
+export async function listSavedPositions(): Promise<SavedPosition[]> {
+  await ensureSchema();
+  const keys = (await AsyncStorage.getAllKeys()).filter(
+    (k) => k === KEYS.session || (k.startsWith(`${KEYS.session}:`) && !k.endsWith(":corrupt"))
+  );
+  const out: SavedPosition[] = [];
+  for (const key of keys) {
+    const res = await readDoc(key, parseSnapshot);
+    if (res.status !== "ok") continue;
+    const { pos, queue, anchor } = res.value;
+    // The anchor is the head of the saved queue, which also has its filename
+    const head = anchor && anchorOf(queue[0])?.id === anchor.id ? queue[0] : null;
+    out.push({ scope: key === KEYS.session ? "" : key.slice(KEYS.session.length + 1), pos, anchor: head });
+  }
+  return out;
+}
+
+/**
+ * Set a scope's position from a backup. The queue and cursor only make sense on the
+ * device they came from, so they are dropped; the engine finds the anchor (when it
+ * could be matched to this library) or else rebuilds the queue at `pos`.
+ */
+export async function restoreSavedPosition(scope: string, pos: number, anchor: ProgressAnchor | null = null) {
+  await writeDocs([[withSuffix(KEYS.session, scope), { pos, queue: [], after: null, anchor }]]);
+}
+
+export function createAsyncSessionStorage(scope: SessionScope): SessionStorage {
+  const SCOPE = scopeKey(scope);
+  const KEY_SESSION = withSuffix(KEYS.session, SCOPE);
+  const KEY_TOTAL = withSuffix(KEYS.total, SCOPE);
+
+  return {
+    async loadProgress() {
+      const res = await readDoc(KEY_SESSION, parseSnapshot);
+      if (res.status === "ok") return res.value;
+      if (res.status === "missing") return { pos: 0, queue: [], after: null, anchor: null };
+      // Damaged snapshot: resume after the last decision made in this scope. An empty
+      // queue makes the engine rebuild it at that position.
+      const [last] = await recentUndoable(SCOPE, 1);
+      return { pos: last && last.pos !== null ? last.pos + 1 : 0, queue: [], after: null, anchor: null };
+    },
+
+    async saveProgress(snapshot) {
+      await writeDocs([[KEY_SESSION, snapshot]]);
+    },
+
+    async clearProgress() {
+      await removeDocs([KEY_SESSION]);
+    },
+
+    async loadTotal() {
+      // Only a cache: if it's damaged, the engine just counts again.
+      const res = await readDoc(KEY_TOTAL, parseTotal);
+      return res.status === "ok" ? res.value : { total: 0, ts: 0 };
+    },
+
+    async saveTotal(total) {
+      await writeDocs([[KEY_TOTAL, total]]);
+    },
+
+    getTrashSet,
+    addToTrash,
+    removeFromTrash,
+
+    getKeepSet,
+    addToKeep,
+    removeFromKeep,
+
+    async getHiddenAssets() {
+      const [trash, keep] = await Promise.all([getTrashEntries(), getKeepEntries()]);
+      return [...trash.map(entryAsset), ...keep];
+    },
+
+    async loadHistory(limit) {
+      // Newest first; a group's entries are next to each other and become one batch.
+      const steps: SessionAction[] = [];
+      let group: string | null = null;
+      for (const e of await recentUndoable(SCOPE, limit)) {
+        const last = steps[steps.length - 1];
+        if (e.group !== null && e.group === group) {
+          steps[steps.length - 1] = batchAction([toAction(e), ...(last.items ?? [last])]);
+        } else {
+          steps.push(e.group !== null ? batchAction([toAction(e)]) : toAction(e));
+        }
+        group = e.group;
+      }
+      return steps;
+    },
+
+    async recordAction({ kind, asset, pos }) {
+      const e = await appendJournal({ kind, asset, pos, scope: SCOPE });
+      return { id: e.id, kind, asset, pos };
+    },
+
+    async recordBatch(actions) {
+      const entries = await appendJournalGroup(
+        actions.map(({ kind, asset, pos }) => ({ kind, asset, pos, scope: SCOPE }))
+      );
+      return batchAction(entries.map(toAction));
+    },
+
+    async recordUndo(action) {
+      await appendJournalBatch(
+        (action.items ?? [action]).map((a) => ({ kind: "undo", asset: a.asset, target: a.id, scope: SCOPE }))
+      );
+    },
+  };
+}
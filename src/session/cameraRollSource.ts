@@ -0,0 +1,210 @@
+// cameraRollSource.ts
+import { CameraRoll, GetPhotosParams } from "@react-native-camera-roll/camera-roll";
+import { assetFromNode, MediaAsset } from "../mediaAsset";
+import { findMissingUris } from "../assetExistence";
+import { walkLibrary } from "../mediaLibrary";
+import type { CountOptions, CountResult, MediaPage, MediaSource, ProgressAnchor } from "./sessionEngine";
+import { scopeIncludes, SessionScope } from "./sessionScope";
+
+// Big page size reduces calls; adjust if you hit memory/time issues.
+const COUNT_PAGE_SIZE = 1000;
+// Capture times are stored at different precisions per platform, so an anchor is looked
+// for among everything within a second of it.
+const ANCHOR_WINDOW_MS = 1000;
+
+const ASSET_TYPE = { photos: "Photos", videos: "Videos", all: "All" } as const;
+
+function baseParams(scope: SessionScope): Omit<GetPhotosParams, "first"> {
+  return {
+    assetType: ASSET_TYPE[scope.media ?? "photos"],
+    groupName: scope.album,
+    fromTime: scope.fromTime,
+    toTime: scope.toTime,
+  };
+}
+
+async function getPage(scope: SessionScope, first: number, after: string | null): Promise<MediaPage> {
+  const res = await CameraRoll.getPhotos({
+    ...baseParams(scope),
+    first,
+    after: after ?? undefined,
+    include: ["filename", "fileSize", "imageSize", "playableDuration", "location", "albums"],
+  });
+
+  const assets = (res.edges ?? [])
+    .filter((e) => typeof e.node.image?.uri === "string" && e.node.image.uri.length > 0)
+    .map((e) => assetFromNode(e.node));
+
+  const endCursor = res.page_info?.has_next_page ? res.page_info?.end_cursor ?? null : null;
+  return { assets, endCursor };
+}
+
+/**
+ * Expensive counting pass (cursor pagination, newest first). Reports progress after
+ * every page, can carry on from an earlier pass's progress and stops between pages
+ * when `signal` aborts. Cursors are offsets on both platforms, so a pass resumed
+ * after the library changed can be off by what changed; the next recount fixes it.
+ */
+async function countRange(
+  params: Omit<GetPhotosParams, "first">,
+  { resume, signal, onProgress }: CountOptions = {}
+): Promise<CountResult> {
+  let counted = resume?.counted ?? 0;
+  let newest = resume?.newest ?? null;
+  const checkAborted = () => {
+    if (signal?.aborted) throw new Error("Counting was cancelled");
+  };
+
+  checkAborted();
+  await walkLibrary(
+    COUNT_PAGE_SIZE,
+    ({ edges, next }) => {
+      if (newest === null && edges.length > 0 && edges[0].node.timestamp) {
+        newest = Math.round(edges[0].node.timestamp * 1000);
+      }
+      counted += edges.length;
+      if (!next) return;
+      onProgress?.({ counted, after: next, newest });
+      checkAborted();
+    },
+    params,
+    resume?.after ?? undefined
+  );
+  return { total: counted, newest };
+}
+
+function countAll(scope: SessionScope, options?: CountOptions): Promise<CountResult> {
+  return countRange(baseParams(scope), options);
+}
+
+/** Items captured after `time` (exclusive), within the scope. */
+function countSince(scope: SessionScope, time: number): Promise<CountResult> {
+  if (scope.toTime !== undefined && scope.toTime <= time) return Promise.resolve({ total: 0, newest: null });
+  return countRange({ ...baseParams(scope), fromTime: Math.max(time, scope.fromTime ?? 0) });
+}
+
+// Both platforms filter on fromTime < t <= toTime (ms).
+
+/** Newest first, a period starts after everything captured later than its (inclusive) end. */
+async function countNewerThan(scope: SessionScope, end: number): Promise<number> {
+  return (await countSince(scope, end)).total;
+}
+
+/** Oldest first, a period starts after everything captured before its start. */
+async function countOlderThan(scope: SessionScope, start: number): Promise<number> {
+  if (scope.fromTime !== undefined && scope.fromTime >= start - 1) return 0;
+  return (await countRange({ ...baseParams(scope), toTime: Math.min(start - 1, scope.toTime ?? Infinity) })).total;
+}
+
+/**
+ * Where an anchored item sits in the scope's order: everything captured clearly before
+ * it (in that order), plus its place among the items around its capture time. If it's
+ * gone, where it would have been.
+ */
+async function locate(scope: SessionScope, anchor: ProgressAnchor): Promise<{ pos: number; found: boolean }> {
+  const t = anchor.capturedAt;
+  const oldest = scope.order === "oldest";
+  const before = oldest
+    ? await countOlderThan(scope, t - ANCHOR_WINDOW_MS + 1)
+    : (await countSince(scope, t + ANCHOR_WINDOW_MS)).total;
+
+  const res = await CameraRoll.getPhotos({
+    ...baseParams(scope),
+    first: COUNT_PAGE_SIZE,
+    fromTime: Math.max(t - ANCHOR_WINDOW_MS, scope.fromTime ?? -Infinity),
+    toTime: Math.min(t + ANCHOR_WINDOW_MS, scope.toTime ?? Infinity),
+  });
+  const near = (res.edges ?? []).map((e) => assetFromNode(e.node));
+  if (oldest) near.reverse();
+
+  const i = near.findIndex((a) => (a.id ?? a.uri) === anchor.id);
+  if (i >= 0) return { pos: before + i, found: true };
+  const earlier = near.filter((a) => a.capturedAt !== undefined && (oldest ? a.capturedAt < t : a.capturedAt > t));
+  return { pos: before + earlier.length, found: false };
+}
+
+/** Ties on capture time count as not ahead. */
+function isAhead(scope: SessionScope, asset: MediaAsset, anchor: ProgressAnchor): boolean {
+  if (asset.capturedAt === undefined || !scopeIncludes(scope, asset)) return false;
+  return scope.order === "oldest" ? asset.capturedAt > anchor.capturedAt : asset.capturedAt < anchor.capturedAt;
+}
+
+/**
+ * CameraRoll only pages newest → oldest. For oldest-first we walk the scope once,
+ * remembering the cursor in front of every chunk of `chunkSize` items, then serve
+ * the chunks back to front, each one reversed.
+ */
+type ChunkIndex = {
+  chunkSize: number;
+  starts: (string | undefined)[]; // `after` for chunk k (undefined = very first)
+  total: number;
+};
+
+async function buildChunkIndex(scope: SessionScope, chunkSize: number): Promise<ChunkIndex> {
+  const starts: (string | undefined)[] = [];
+  let total = 0;
+
+  await walkLibrary(
+    chunkSize,
+    ({ edges, after }) => {
+      if (edges.length === 0) return false;
+      starts.push(after);
+      total += edges.length;
+    },
+    baseParams(scope)
+  );
+
+  return { chunkSize, starts, total };
+}
+
+function createOldestFirstSource(scope: SessionScope): MediaSource {
+  let index: Promise<ChunkIndex> | null = null;
+
+  const getIndex = (chunkSize: number) => {
+    if (!index) {
+      index = buildChunkIndex(scope, chunkSize);
+      // don't cache failures
+      index.catch(() => {
+        index = null;
+      });
+    }
+    return index;
+  };
+
+  return {
+    // Cursors are chunk numbers; `first` is only used for the first index build.
+    async getPage(first, after) {
+      const idx = await getIndex(first);
+      const k = after === null ? idx.starts.length - 1 : Number(after);
+      if (!Number.isInteger(k) || k < 0 || k >= idx.starts.length) return { assets: [], endCursor: null };
+
+      const page = await getPage(scope, idx.chunkSize, idx.starts[k] ?? null);
+      return {
+        assets: page.assets.reverse(),
+        endCursor: k > 0 ? String(k - 1) : null,
+      };
+    },
+
+    // Its own pass rather than the chunk index's, so it can be cancelled and resumed
+    countAll: (options) => countAll(scope, options),
+    countSince: (time) => countSince(scope, time),
+
+    findMissing: findMissingUris,
+    positionOfPeriod: (start) => countOlderThan(scope, start),
+    locate: (anchor) => locate(scope, anchor),
+    isAhead: (asset, anchor) => isAhead(scope, asset, anchor),
+  };
+}
+
+export function createCameraRollSource(scope: SessionScope): MediaSource {
+  if (scope.order === "oldest") return createOldestFirstSource(scope);
+  return {
+    getPage: (first, after) => getPage(scope, first, after),
+    countAll: (options) => countAll(scope, options),
+    countSince: (time) => countSince(scope, time),
+    findMissing: findMissingUris,
+    positionOfPeriod: (_start, end) => countNewerThan(scope, end),
+    locate: (anchor) => locate(scope, anchor),
+    isAhead: (asset, anchor) => isAhead(scope, asset, anchor),
+  };
+}
@@ -0,0 +1,632 @@
+// sessionEngine.ts
+//
+// Headless swipe session: position, upcoming queue, paging cursor and undo history.
+// Every decision is recorded through SessionStorage, so undo survives restarts and jumps.
+// No React, no native modules — everything goes through MediaSource / SessionStorage,
+// so the whole flow can run in jest against an in-memory library.
+
+import type { MediaAsset } from "../mediaAsset";
+
+export type MediaPage = {
+  assets: MediaAsset[];
+  // Cursor to fetch the page after this one (null = no more pages)
+  endCursor: string | null;
+};
+
+/** Where a count got to; enough to carry on from there later. */
+export type CountProgress = {
+  counted: number;
+  after: string | null; // cursor to continue from
+  newest: number | null; // capture time of the newest item, ms
+};
+
+export type CountResult = { total: number; newest: number | null };
+
+export type CountOptions = {
+  resume?: CountProgress; // carry on from an interrupted pass
+  signal?: AbortSignal; // stop between pages; the promise rejects
+  onProgress?: (p: CountProgress) => void; // after every page but the last
+};
+
+export interface MediaSource {
+  getPage(first: number, after: string | null): Promise<MediaPage>;
+  /** Expensive full pass over the library. */
+  countAll(options?: CountOptions): Promise<CountResult>;
+  /** How many items were captured after `time` (added since a count). Optional; cheap when few. */
+  countSince?(time: number): Promise<CountResult>;
+  /** Which of these URIs no longer exist (deleted outside the app). Optional. */
+  findMissing?(uris: string[]): Promise<Set<string>>;
+  /**
+   * Position (in this source's order) where items captured in [start, end] begin, or
+   * would begin if there are none. ms timestamps. Optional.
+   */
+  positionOfPeriod?(start: number, end: number): Promise<number>;
+  /** Where the anchored item is now, or where it would be if it's gone. Optional. */
+  locate?(anchor: ProgressAnchor): Promise<{ pos: number; found: boolean }>;
+  /** Whether an item on record belongs to this source and comes after `anchor`. Optional. */
+  isAhead?(asset: MediaAsset, anchor: ProgressAnchor): boolean;
+}
+
+/** The item a session stopped at, by identity: survives the library changing around it. */
+export type ProgressAnchor = {
+  id: string; // asset id (the URI when there is none)
+  capturedAt: number; // ms timestamp
+};
+
+export function anchorOf(asset: MediaAsset | undefined): ProgressAnchor | null {
+  if (!asset || asset.capturedAt === undefined) return null;
+  return { id: asset.id ?? asset.uri, capturedAt: asset.capturedAt };
+}
+
+/** The item a session stopped at was deleted by load time; it carries on where it was. */
+export type ProgressDrift = {
+  from: number;
+  to: number;
+};
+
+export type SavedProgress = {
+  pos: number; // what the anchor was at when saved; the anchor wins on load
+  queue: MediaAsset[]; // library items from `pos` on, including already decided ones
+  after: string | null;
+  anchor: ProgressAnchor | null;
+};
+
+export type CachedTotal = {
+  total: number;
+  ts: number; // ms timestamp, 0 = never computed
+  newest?: number | null; // capture time of the newest item counted
+  partial?: CountProgress | null; // an unfinished recount, resumed next time
+};
+
+export interface SessionStorage {
+  loadProgress(): Promise<SavedProgress>;
+  saveProgress(p: SavedProgress): Promise<void>;
+  clearProgress(): Promise<void>;
+
+  loadTotal(): Promise<CachedTotal>;
+  saveTotal(t: CachedTotal): Promise<void>;
+
+  getTrashSet(): Promise<Set<string>>;
+  addToTrash(asset: MediaAsset): Promise<void>;
+  removeFromTrash(uri: string): Promise<void>;
+
+  getKeepSet(): Promise<Set<string>>;
+  addToKeep(asset: MediaAsset): Promise<void>;
+  removeFromKeep(uri: string): Promise<void>;
+  /** Everything trashed or kept, with whatever metadata was saved for it. */
+  getHiddenAssets(): Promise<MediaAsset[]>;
+
+  /** Most recent undoable decisions, newest first. */
+  loadHistory(limit: number): Promise<SessionAction[]>;
+  recordAction(action: SessionDecision): Promise<SessionAction>;
+  /** Several decisions made at once (grid triage), returned as one "batch" action. */
+  recordBatch(actions: SessionDecision[]): Promise<SessionAction>;
+  recordUndo(action: SessionAction): Promise<void>;
+}
+
+export type SessionAction = {
+  id: string; // journal id
+  kind: "skip" | "trash" | "keep" | "batch";
+  asset: MediaAsset; // a batch: its first item
+  pos: number; // position the decision was made at
+  items?: SessionAction[]; // batch only: its decisions in order, at pos, pos + 1, ...
+};
+
+/** A single decision, before it is recorded. */
+export type SessionDecision = {
+  kind: "skip" | "trash" | "keep";
+  asset: MediaAsset;
+  pos: number;
+};
+
+/** One undo step made of several decisions, oldest first. */
+export function batchAction(items: SessionAction[]): SessionAction {
+  return { id: items[0].id, kind: "batch", asset: items[0].asset, pos: items[0].pos, items };
+}
+
+export type SessionState = {
+  // Index of the current photo in the library order (0-based), decided ones included
+  pos: number;
+  // Upcoming photos. Current photo is queue[0]. null = not loaded yet.
+  queue: MediaAsset[] | null;
+  // Cursor to fetch the next batch after the already fetched ones.
+  afterCursor: string | null;
+  // Most recent first; a window onto the persisted journal
+  history: SessionAction[];
+  trashCount: number;
+  keepCount: number;
+  totalCount: number | null;
+  // Items counted so far while a count runs; null when not counting
+  counted: number | null;
+  // Undecided items from the current one on (trashed and kept ones ahead don't count)
+  left: number | null;
+  // Set when load found the saved item gone; null otherwise
+  drift: ProgressDrift | null;
+  busy: boolean;
+};
+
+export type SessionOptions = {
+  pageSize?: number; // how many we fetch per API call
+  minQueueBeforeRefill?: number; // when queue gets low, fetch more
+  maxQueuePersist?: number; // how many upcoming URIs we persist (keep small)
+  historyLimit?: number; // how much of the journal to keep in memory at once
+  totalMaxAgeMs?: number; // recompute the cached total after this long
+  now?: () => number;
+};
+
+export type SessionEngine = {
+  getState(): SessionState;
+  subscribe(listener: (s: SessionState) => void): () => void;
+  /** Change options on a live engine (settings screen); applies from the next fetch on. */
+  configure(options: Omit<SessionOptions, "now">): void;
+
+  load(): Promise<void>;
+  /** Cached total first, then a (resumable) recount when stale; rejects if `signal` aborts. */
+  loadTotalCount(signal?: AbortSignal): Promise<void>;
+  refreshCounts(): Promise<void>;
+  /** Re-read the undo window; the History screen can revert decisions behind our back. */
+  refreshHistory(): Promise<void>;
+  /** Drop queued items that were deleted outside the app; resolves to how many. */
+  reconcile(): Promise<number>;
+
+  // Each returns false when ignored (busy, or nothing to act on).
+  skip(): Promise<boolean>;
+  trash(): Promise<boolean>;
+  keep(): Promise<boolean>;
+  undo(): Promise<boolean>;
+  /** Decide the next `count` items at once: `trashUris` go to the trash, the rest are skipped. One undo step. */
+  triage(count: number, trashUris: string[]): Promise<boolean>;
+  jumpTo(targetPos: number): Promise<boolean>;
+  /** Jump to the first item captured in [start, end]; false if the source can't, or we're busy. */
+  jumpToPeriod(start: number, end: number): Promise<boolean>;
+  restart(): Promise<boolean>;
+};
+
+const DEFAULTS = {
+  pageSize: 80,
+  minQueueBeforeRefill: 20,
+  maxQueuePersist: 120,
+  historyLimit: 50,
+  totalMaxAgeMs: 24 * 60 * 60 * 1000,
+};
+
+function dedupe(assets: MediaAsset[]): MediaAsset[] {
+  const out: MediaAsset[] = [];
+  const seen = new Set<string>();
+  for (const a of assets) {
+    if (seen.has(a.uri)) continue;
+    seen.add(a.uri);
+    out.push(a);
+  }
+  return out;
+}
+
+export function createSessionEngine(
+  source: MediaSource,
+  storage: SessionStorage,
+  options: SessionOptions = {}
+): SessionEngine {
+  const opts = { ...DEFAULTS, ...options };
+  const now = options.now ?? Date.now;
+
+  let state: SessionState = {
+    pos: 0,
+    queue: null,
+    afterCursor: null,
+    history: [],
+    trashCount: 0,
+    keepCount: 0,
+    totalCount: null,
+    counted: null,
+    left: null,
+    drift: null,
+    busy: false,
+  };
+  const listeners = new Set<(s: SessionState) => void>();
+
+  // Library items from `pos` on, as fetched. The queue is these minus the ones already
+  // trashed or kept; they still count towards positions, so `pos` stays a real index
+  // into the library and an anchor can be checked against it.
+  let fetched: MediaAsset[] = [];
+  let hidden = new Set<string>();
+  let hiddenAssets: MediaAsset[] = [];
+
+  function setState(patch: Partial<SessionState>) {
+    state = { ...state, ...patch };
+    state.left = remaining();
+    listeners.forEach((l) => l(state));
+  }
+
+  function remaining(): number | null {
+    if (state.totalCount === null || state.queue === null) return null;
+    const anchor = anchorOf(state.queue[0]);
+    // Decided items further on would be skipped; without an anchor only the fetched ones are known
+    const ahead =
+      anchor && source.isAhead
+        ? hiddenAssets.filter((a) => source.isAhead!(a, anchor)).length
+        : fetched.length - state.queue.length;
+    return Math.max(0, state.totalCount - state.pos - ahead);
+  }
+
+  function visible(assets: MediaAsset[]) {
+    return assets.filter((a) => !hidden.has(a.uri));
+  }
+
+  // Runs `fn` with the busy flag held; concurrent calls are dropped.
+  async function exclusive(fn: () => Promise<boolean | void>): Promise<boolean> {
+    if (state.busy) return false;
+    setState({ busy: true });
+    try {
+      return (await fn()) !== false;
+    } finally {
+      setState({ busy: false });
+    }
+  }
+
+  /** Everything already decided on (trashed or kept); never shown again. */
+  async function loadHidden() {
+    const [trash, keep, assets] = await Promise.all([
+      storage.getTrashSet(),
+      storage.getKeepSet(),
+      storage.getHiddenAssets(),
+    ]);
+    hidden = new Set([...trash, ...keep]);
+    hiddenAssets = assets;
+    setState({ trashCount: trash.size, keepCount: keep.size });
+  }
+
+  /** `items` are library items starting at `pos`; decided ones at the front are passed over. */
+  async function commit(pos: number, items: MediaAsset[], after: string | null) {
+    let skipped = 0;
+    while (skipped < items.length && hidden.has(items[skipped].uri)) skipped++;
+    fetched = items.slice(skipped);
+    const at = pos + skipped;
+    setState({ pos: at, queue: visible(fetched), afterCursor: after });
+    await storage.saveProgress({
+      pos: at,
+      queue: fetched.slice(0, opts.maxQueuePersist),
+      after,
+      anchor: anchorOf(fetched[0]),
+    });
+  }
+
+  /**
+   * Top up the queue when it gets low. Keeps fetching while the queue is still empty
+   * (e.g. a whole page was already decided on) so the caller always gets something to show
+   * unless the library is exhausted. A null cursor means there is nothing left to fetch.
+   */
+  async function refill(items: MediaAsset[], after: string | null) {
+    if (visible(items).length >= opts.minQueueBeforeRefill || !after) return { q: items, after };
+
+    await loadHidden();
+    let q = items;
+    let cursor: string | null = after;
+
+    while (cursor) {
+      const page = await source.getPage(opts.pageSize, cursor);
+      // append and dedupe lightly (avoid repeats); trashed/kept ones stay, hidden
+      q = dedupe([...q, ...page.assets]);
+      cursor = page.endCursor;
+      if (visible(q).length > 0) break;
+    }
+
+    return { q, after: cursor };
+  }
+
+  // Decisions don't wait for the library: they consume the queue, and this tops it up
+  // in the background (one run at a time, outside `busy`). A page is only appended if the
+  // queue still ends at the cursor it was fetched from; a jump or restart in the meantime
+  // moves the cursor and the page is dropped.
+  let refilling: Promise<void> | null = null;
+
+  function refillInBackground(): Promise<void> {
+    if (!refilling) {
+      refilling = (async () => {
+        while (state.queue && state.queue.length < opts.minQueueBeforeRefill && state.afterCursor) {
+          const cursor = state.afterCursor;
+          await loadHidden();
+          const page = await source.getPage(opts.pageSize, cursor);
+          if (!state.queue || state.afterCursor !== cursor) continue;
+          await commit(state.pos, dedupe([...fetched, ...page.assets]), page.endCursor);
+        }
+      })()
+        .catch(() => {
+          // the next decision tries again
+        })
+        .finally(() => {
+          refilling = null;
+        });
+    }
+    return refilling;
+  }
+
+  /** Where the saved place is in the library now; null if there's no anchor or no way to look. */
+  async function locateSaved(saved: SavedProgress) {
+    if (!saved.anchor || !source.locate) return null;
+    try {
+      return await source.locate(saved.anchor);
+    } catch {
+      // couldn't check; trust what was saved
+      return null;
+    }
+  }
+
+  async function loadInternal() {
+    const [, saved] = await Promise.all([loadHidden(), storage.loadProgress()]);
+    const located = await locateSaved(saved);
+    // Only a vanished item is worth a word; anything else moved around what's left to review
+    setState({ drift: located && !located.found ? { from: saved.pos, to: located.pos } : null });
+
+    // Items added or deleted before the saved place move it, and the saved cursor (an
+    // offset on both platforms) with it. The queue still holds if it starts at the anchor
+    // and only a few items were added in front (e.g. new photos, newest first): the
+    // cursor then re-fetches some of the queue, which dedupe drops. Otherwise it is
+    // rebuilt, as is a position without a queue (e.g. restored from a backup).
+    const pos = located ? located.pos : saved.pos;
+    const shift = pos - saved.pos;
+    const queueHolds =
+      !located ||
+      (located.found && anchorOf(saved.queue[0])?.id === saved.anchor?.id && shift >= 0 && shift <= saved.queue.length);
+    if (!queueHolds || (saved.queue.length === 0 && pos > 0)) {
+      const rebuilt = await rebuildAtPos(pos);
+      setState({ history: await storage.loadHistory(opts.historyLimit) });
+      await commit(rebuilt.pos, rebuilt.q, rebuilt.after);
+      return;
+    }
+
+    // Use saved queue if available; otherwise fetch first page
+    let q = saved.queue;
+    let after = saved.after;
+
+    if (q.length === 0) {
+      const page = await source.getPage(opts.pageSize, null);
+      q = page.assets;
+      after = page.endCursor;
+    }
+
+    // Ensure we have enough buffer
+    const refilled = await refill(q, after);
+
+    setState({ history: await storage.loadHistory(opts.historyLimit) });
+    // persist in case decided ones at the front were passed over
+    await commit(pos, refilled.q, refilled.after);
+  }
+
+  /**
+   * Rebuild queue + cursor such that pos points to `targetPos` (0-based in the full library order).
+   * Items already trashed or kept are passed over by commit(), so the first shown image might be
+   * the next undecided photo at/after targetPos.
+   */
+  async function rebuildAtPos(targetPos: number) {
+    let after: string | null = null;
+    let consumed = 0; // how many library items we've skipped so far
+
+    while (true) {
+      const page = await source.getPage(opts.pageSize, after);
+      const pageLen = page.assets.length;
+
+      // No more photos
+      if (pageLen === 0) return { pos: Math.max(0, consumed), q: [] as MediaAsset[], after: null };
+
+      // If the target is beyond this page, skip it.
+      if (consumed + pageLen <= targetPos && page.endCursor) {
+        consumed += pageLen;
+        after = page.endCursor;
+        continue;
+      }
+
+      // Target is inside this page (or we're at the end).
+      await loadHidden();
+      const startIdx = Math.max(0, targetPos - consumed);
+      const q = page.assets.slice(startIdx);
+
+      // Top up queue if needed so the user can immediately keep swiping
+      const refilled = await refill(q, page.endCursor);
+      return { pos: Math.max(0, targetPos), q: refilled.q, after: refilled.after };
+    }
+  }
+
+  async function advance(kind: SessionDecision["kind"], asset: MediaAsset) {
+    await pushStep(await storage.recordAction({ kind, asset, pos: state.pos }));
+  }
+
+  // `action` decided the first queued items; move past them and whatever was hidden in between.
+  async function pushStep(action: SessionAction) {
+    const items = action.items ?? [action];
+    const lastUri = items[items.length - 1].asset.uri;
+    const passed = fetched.findIndex((a) => a.uri === lastUri) + 1;
+    const rest = fetched.slice(passed);
+    setState({ history: [action, ...state.history].slice(0, opts.historyLimit) });
+    await commit(state.pos + passed, rest, state.afterCursor);
+    const refilled = refillInBackground();
+    // Nothing left to show: this one has to wait
+    if (visible(rest).length === 0) await refilled;
+  }
+
+  return {
+    getState: () => state,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    configure(next) {
+      Object.assign(opts, next);
+      if (state.history.length > opts.historyLimit) setState({ history: state.history.slice(0, opts.historyLimit) });
+    },
+
+    async load() {
+      await exclusive(loadInternal);
+    },
+
+    async loadTotalCount(signal) {
+      // Load cached total first (instant)
+      const cached = await storage.loadTotal();
+      if (cached.total > 0) setState({ totalCount: cached.total });
+
+      const isStale = !cached.ts || now() - cached.ts > opts.totalMaxAgeMs;
+      if (cached.total > 0 && !isStale) {
+        // Still fresh; just add what was captured since
+        if (cached.newest == null || !source.countSince) return;
+        const added = await source.countSince(cached.newest);
+        if (added.total === 0) return;
+        const total = cached.total + added.total;
+        setState({ totalCount: total });
+        await storage.saveTotal({ ...cached, total, newest: added.newest ?? cached.newest });
+        return;
+      }
+
+      // Progress is saved after every page, so an interrupted count carries on next time.
+      // A failed checkpoint only costs the resume point, so it doesn't fail the count.
+      let checkpoint = Promise.resolve();
+      let result: CountResult;
+      try {
+        setState({ counted: cached.partial?.counted ?? 0 });
+        result = await source.countAll({
+          resume: cached.partial ?? undefined,
+          signal,
+          onProgress: (partial) => {
+            setState({ counted: partial.counted });
+            checkpoint = checkpoint.then(() => storage.saveTotal({ ...cached, partial })).catch(() => {});
+          },
+        });
+      } finally {
+        // Settle checkpoints even when cancelled, and before the final save can be overwritten.
+        await checkpoint;
+        setState({ counted: null });
+      }
+      setState({ totalCount: result.total });
+      await storage.saveTotal({ total: result.total, ts: now(), newest: result.newest, partial: null });
+    },
+
+    async refreshCounts() {
+      await loadHidden();
+    },
+
+    async refreshHistory() {
+      setState({ history: await storage.loadHistory(opts.historyLimit) });
+    },
+
+    async reconcile() {
+      if (!source.findMissing || fetched.length === 0) return 0;
+      // The check may walk the whole library, so it runs outside `busy` and swipes carry
+      // on meanwhile; only its result is applied, to whatever is queued by then.
+      const missing = await source.findMissing(fetched.map((a) => a.uri));
+      const current = fetched;
+      const kept = current.filter((a) => !missing.has(a.uri));
+      if (kept.length === current.length) return 0;
+      // Only the ones that would have been shown are worth mentioning
+      const removed = visible(current).length - visible(kept).length;
+
+      // Everything after them moves up a place, so the position stays put...
+      await commit(state.pos, kept, state.afterCursor);
+      // ...but they are gone from the library, and from its total
+      if (state.totalCount !== null) {
+        const total = Math.max(0, state.totalCount - (current.length - kept.length));
+        setState({ totalCount: total });
+        await storage.saveTotal({ ...(await storage.loadTotal()), total });
+      }
+      const refilled = refillInBackground();
+      if (visible(kept).length === 0) await refilled;
+      return removed;
+    },
+
+    skip: () =>
+      exclusive(async () => {
+        const asset = state.queue?.[0];
+        if (!asset) return false;
+        await advance("skip", asset);
+      }),
+
+    trash: () =>
+      exclusive(async () => {
+        const asset = state.queue?.[0];
+        if (!asset) return false;
+        await storage.addToTrash(asset);
+        await loadHidden();
+        await advance("trash", asset);
+      }),
+
+    keep: () =>
+      exclusive(async () => {
+        const asset = state.queue?.[0];
+        if (!asset) return false;
+        await storage.addToKeep(asset);
+        await loadHidden();
+        await advance("keep", asset);
+      }),
+
+    triage: (count, trashUris) =>
+      exclusive(async () => {
+        const items = (state.queue ?? []).slice(0, count);
+        if (items.length === 0) return false;
+
+        const marked = new Set(trashUris);
+        for (const asset of items) if (marked.has(asset.uri)) await storage.addToTrash(asset);
+        if (items.some((a) => marked.has(a.uri))) await loadHidden();
+
+        // Each at its own place in the library, past anything hidden in between
+        const batch = await storage.recordBatch(
+          items.map((asset): SessionDecision => ({
+            kind: marked.has(asset.uri) ? "trash" : "skip",
+            asset,
+            pos: state.pos + fetched.findIndex((a) => a.uri === asset.uri),
+          }))
+        );
+        await pushStep(batch);
+      }),
+
+    undo: () =>
+      exclusive(async () => {
+        const last = state.history[0];
+        if (!last) return false;
+        const decisions = last.items ?? [last];
+
+        // If it was trashed, untrash it
+        const trashed = decisions.filter((a) => a.kind === "trash");
+        for (const a of trashed) await storage.removeFromTrash(a.asset.uri);
+
+        const kept = decisions.filter((a) => a.kind === "keep");
+        for (const a of kept) await storage.removeFromKeep(a.asset.uri);
+        if (trashed.length > 0 || kept.length > 0) await loadHidden();
+
+        await storage.recordUndo(last);
+        const history = state.history.slice(1);
+        // Ran off the in-memory window; pull the next stretch from the journal.
+        setState({ history: history.length > 0 ? history : await storage.loadHistory(opts.historyLimit) });
+
+        // Put the assets back to the FRONT of the queue and rewind position. If the decision
+        // was made somewhere else (before a jump or restart, or with hidden items passed
+        // over since), go back there first.
+        const assets = decisions.map((a) => a.asset);
+        if (last.pos + decisions.length === state.pos) {
+          await commit(last.pos, [...assets, ...fetched], state.afterCursor);
+        } else {
+          const rebuilt = await rebuildAtPos(last.pos);
+          await commit(last.pos, dedupe([...assets, ...rebuilt.q]), rebuilt.after);
+        }
+      }),
+
+    jumpTo: (targetPos) =>
+      exclusive(async () => {
+        const rebuilt = await rebuildAtPos(targetPos);
+        await commit(rebuilt.pos, rebuilt.q, rebuilt.after);
+      }),
+
+    jumpToPeriod: (start, end) =>
+      exclusive(async () => {
+        if (!source.positionOfPeriod) return false;
+        const rebuilt = await rebuildAtPos(await source.positionOfPeriod(start, end));
+        await commit(rebuilt.pos, rebuilt.q, rebuilt.after);
+      }),
+
+    restart: () =>
+      exclusive(async () => {
+        await storage.clearProgress();
+        await loadInternal();
+      }),
+  };
+}
@@ -0,0 +1,99 @@
+// sessionScope.ts
+//
+// Which slice of the library a swipe session walks. Progress and cached totals
+// are stored per scope, so switching albums doesn't lose your place elsewhere.
+
+import type { MediaAsset } from "../mediaAsset";
+
+export type SessionOrder = "newest" | "oldest";
+
+export type SessionMedia = "photos" | "videos" | "all";
+
+export type SessionScope = {
+  album?: string; // CameraRoll groupName; undefined = whole camera roll
+  fromTime?: number; // ms timestamp, exclusive (CameraRoll semantics)
+  toTime?: number; // ms timestamp, inclusive
+  order?: SessionOrder; // default "newest"
+  media?: SessionMedia; // default "photos"
+};
+
+/** Storage key suffix for a scope ("" for the whole library, so older keys keep working). */
+export function scopeKey(scope: SessionScope): string {
+  const parts: string[] = [];
+  if (scope.album) parts.push(`album:${scope.album}`);
+  if (scope.fromTime !== undefined) parts.push(`from:${scope.fromTime}`);
+  if (scope.toTime !== undefined) parts.push(`to:${scope.toTime}`);
+  if (scope.order === "oldest") parts.push("oldest");
+  if (scope.media && scope.media !== "photos") parts.push(`media:${scope.media}`);
+  return parts.join("|");
+}
+
+function formatDay(ms: number): string {
+  return new Date(ms).toLocaleDateString();
+}
+
+const LIBRARY_TITLE: Record<SessionMedia, string> = {
+  photos: "All photos",
+  videos: "All videos",
+  all: "All media",
+};
+
+export function scopeTitle(scope: SessionScope): string {
+  let title = scope.album ?? LIBRARY_TITLE[scope.media ?? "photos"];
+  if (scope.fromTime !== undefined || scope.toTime !== undefined) {
+    // fromTime is exclusive, so the first included day starts 1ms later
+    const from = scope.fromTime !== undefined ? formatDay(scope.fromTime + 1) : "…";
+    const to = scope.toTime !== undefined ? formatDay(scope.toTime) : "…";
+    title += ` (${from} – ${to})`;
+  }
+  if (scope.order === "oldest") title += " ↑";
+  return title;
+}
+
+/**
+ * Parse "2019", "2019-06" or "2019-06-15" into the local-time period it covers.
+ * Returns null for anything else.
+ */
+export function parsePeriod(text: string): { start: number; end: number } | null {
+  const m = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(text.trim());
+  if (!m) return null;
+
+  const y = Number(m[1]);
+  const mo = m[2] ? Number(m[2]) - 1 : null;
+  const d = m[3] ? Number(m[3]) : null;
+  if (mo !== null && (mo < 0 || mo > 11)) return null;
+
+  let start: Date;
+  let next: Date;
+  if (mo === null) {
+    start = new Date(y, 0, 1);
+    next = new Date(y + 1, 0, 1);
+  } else if (d === null) {
+    start = new Date(y, mo, 1);
+    next = new Date(y, mo + 1, 1);
+  } else {
+    start = new Date(y, mo, d);
+    // reject overflow like 2019-02-31
+    if (start.getMonth() !== mo) return null;
+    next = new Date(y, mo, d + 1);
+  }
+
+  return { start: start.getTime(), end: next.getTime() - 1 };
+}
+
+export function includesVideos(scope: SessionScope): boolean {
+  return scope.media === "videos" || scope.media === "all";
+}
+
+/**
+ * Whether an item we have on record (trash, keep list) falls in the scope, going by
+ * the metadata saved with it. What wasn't saved (capture time, albums) counts as a match.
+ */
+export function scopeIncludes(scope: SessionScope, asset: MediaAsset): boolean {
+  const media = scope.media ?? "photos";
+  if (media !== "all" && (asset.kind ?? "photo") !== (media === "videos" ? "video" : "photo")) return false;
+  const t = asset.capturedAt;
+  if (t !== undefined && scope.fromTime !== undefined && t <= scope.fromTime) return false;
+  if (t !== undefined && scope.toTime !== undefined && t > scope.toTime) return false;
+  return !scope.album || !asset.albums || asset.albums.includes(scope.album);
+}
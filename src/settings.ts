@@ -0,0 +1,121 @@
+// settings.ts
+//
+// User preferences for the swipe screen. Kept in memory once loaded so screens can
+// read them synchronously (useSettings) and pick up changes as soon as they're saved.
+import * as React from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { SessionOptions } from "./session/sessionEngine";
+
+const KEY = "gallery_settings_v1";
+
+export type Sensitivity = "low" | "medium" | "high";
+
+export type Settings = {
+  trashDirection: "right" | "left"; // skip is the other way
+  sensitivity: Sensitivity;
+  haptics: boolean;
+  confirmBeforeTrash: boolean;
+  prefetchDepth: number; // upcoming items kept queued
+  undoDepth: number; // decisions held in memory for undo
+  recountAfterHours: number; // how long the cached total photo count is trusted
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  trashDirection: "right",
+  sensitivity: "medium",
+  haptics: true,
+  confirmBeforeTrash: false,
+  prefetchDepth: 20,
+  undoDepth: 50,
+  recountAfterHours: 24,
+};
+
+export const PREFETCH_OPTIONS = [10, 20, 50];
+export const UNDO_OPTIONS = [20, 50, 200];
+export const RECOUNT_OPTIONS = [1, 24, 24 * 7];
+
+// Fraction of the screen width a swipe has to travel
+const SENSITIVITY_FRACTION: Record<Sensitivity, number> = { low: 0.3, medium: 0.18, high: 0.1 };
+const MIN_SWIPE_PX: Record<Sensitivity, number> = { low: 90, medium: 60, high: 36 };
+
+export function swipeThreshold(sensitivity: Sensitivity, width: number): number {
+  return Math.max(MIN_SWIPE_PX[sensitivity], width * SENSITIVITY_FRACTION[sensitivity]);
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** The engine knobs these settings control. */
+export function sessionOptions(s: Settings): SessionOptions {
+  return {
+    pageSize: s.prefetchDepth * 4,
+    minQueueBeforeRefill: s.prefetchDepth,
+    historyLimit: s.undoDepth,
+    totalMaxAgeMs: s.recountAfterHours * HOUR_MS,
+  };
+}
+
+/** Fills gaps and drops unknown values, so older or hand-edited data still loads. */
+export function parseSettings(x: unknown): Settings {
+  const o = x && typeof x === "object" ? (x as Record<string, unknown>) : {};
+  const pick = <T>(value: unknown, allowed: readonly T[], fallback: T): T =>
+    allowed.includes(value as T) ? (value as T) : fallback;
+  const d = DEFAULT_SETTINGS;
+  return {
+    trashDirection: pick(o.trashDirection, ["right", "left"] as const, d.trashDirection),
+    sensitivity: pick(o.sensitivity, ["low", "medium", "high"] as const, d.sensitivity),
+    haptics: typeof o.haptics === "boolean" ? o.haptics : d.haptics,
+    confirmBeforeTrash: typeof o.confirmBeforeTrash === "boolean" ? o.confirmBeforeTrash : d.confirmBeforeTrash,
+    prefetchDepth: pick(o.prefetchDepth, PREFETCH_OPTIONS, d.prefetchDepth),
+    undoDepth: pick(o.undoDepth, UNDO_OPTIONS, d.undoDepth),
+    recountAfterHours: pick(o.recountAfterHours, RECOUNT_OPTIONS, d.recountAfterHours),
+  };
+}
+
+let current: Settings = DEFAULT_SETTINGS;
+let loaded: Promise<Settings> | null = null;
+const listeners = new Set<() => void>();
+
+function publish(next: Settings) {
+  current = next;
+  listeners.forEach((l) => l());
+}
+
+export function getSettings(): Settings {
+  return current;
+}
+
+/** Reads the saved settings once; later calls resolve to what's in memory. */
+export function loadSettings(): Promise<Settings> {
+  if (!loaded) {
+    loaded = AsyncStorage.getItem(KEY)
+      .then((raw) => {
+        publish(parseSettings(raw ? JSON.parse(raw) : null));
+        return current;
+      })
+      .catch(() => current);
+  }
+  return loaded;
+}
+
+export async function updateSettings(patch: Partial<Settings>): Promise<Settings> {
+  await loadSettings();
+  const next = parseSettings({ ...current, ...patch });
+  publish(next);
+  await AsyncStorage.setItem(KEY, JSON.stringify(next));
+  return next;
+}
+
+export function subscribeSettings(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Current settings, re-rendering on every change. Starts loading them if nobody has yet. */
+export function useSettings(): Settings {
+  React.useEffect(() => {
+    loadSettings().catch(() => {});
+  }, []);
+  return React.useSyncExternalStore(subscribeSettings, getSettings);
+}
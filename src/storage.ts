@@ -0,0 +1,228 @@
+// storage.ts
+//
+// Typed, versioned documents on top of AsyncStorage. Each value is one JSON document
+// wrapped with a checksum, so a torn or hand-edited write is detected instead of
+// being read as "nothing saved". Related documents are written
+// together with multiSet. Older installs are migrated once, before the first read.
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+export const SCHEMA_VERSION = 3;
+const SCHEMA_KEY = "gallery_schema_version";
+const ENVELOPE_VERSION = 1; // format of the wrapper itself, independent of the schema
+
+// Current document keys. Session keys get a ":<scopeKey>" suffix, except for the whole library.
+export const KEYS = {
+  session: "gallery_session_v2", // SessionSnapshot
+  total: "gallery_total_v2", // TotalDoc
+  trash: "gallery_trash_v3", // trash entries
+  keep: "gallery_keep_v2", // keep entries
+  journal: "gallery_journal_v2", // ":meta" and ":<n>" segments; see actionJournal.ts
+};
+
+export type ReadResult<T> = { status: "ok"; value: T } | { status: "missing" } | { status: "corrupt" };
+
+type Envelope = { v: number; sum: string; data: unknown };
+
+// 32-bit FNV-1a; catches truncation and stray edits, not tampering.
+function checksum(s: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16);
+}
+
+export function encodeDoc(data: unknown): string {
+  const json = JSON.stringify(data);
+  return `{"v":${ENVELOPE_VERSION},"sum":"${checksum(json)}","data":${json}}`;
+}
+
+/** The document's data, or undefined if it isn't an intact envelope. */
+export function decodeDoc(raw: string): unknown {
+  let env: Envelope;
+  try {
+    env = JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+  if (!env || env.v !== ENVELOPE_VERSION || typeof env.sum !== "string" || !("data" in env)) return undefined;
+  return checksum(JSON.stringify(env.data)) === env.sum ? env.data : undefined;
+}
+
+/** A key plus a scope suffix; the whole-library scope ("") has none. */
+export function withSuffix(key: string, suffix: string): string {
+  return suffix ? `${key}:${suffix}` : key;
+}
+
+/**
+ * Reads and validates a document. Corrupt values are moved aside to "<key>:corrupt"
+ * (for support, and so the caller's rebuild doesn't trip over them again).
+ */
+export async function readDoc<T>(key: string, parse: (data: unknown) => T | null): Promise<ReadResult<T>> {
+  await ensureSchema();
+  const raw = await AsyncStorage.getItem(key);
+  if (raw === null) return { status: "missing" };
+
+  const data = decodeDoc(raw);
+  const value = data === undefined ? null : parse(data);
+  if (value !== null) return { status: "ok", value };
+
+  await AsyncStorage.multiSet([[`${key}:corrupt`, raw]]);
+  await AsyncStorage.removeItem(key);
+  return { status: "corrupt" };
+}
+
+/** Writes all documents in one multiSet, so readers never see half of an update. */
+export async function writeDocs(docs: [key: string, data: unknown][]) {
+  await ensureSchema();
+  await AsyncStorage.multiSet(docs.map(([key, data]): [string, string] => [key, encodeDoc(data)]));
+}
+
+export async function removeDocs(keys: string[]) {
+  await ensureSchema();
+  await AsyncStorage.multiRemove(keys);
+}
+
+/** Runs async read-modify-write sections one at a time, in call order. */
+export function createLock() {
+  let tail: Promise<unknown> = Promise.resolve();
+  return function locked<T>(run: () => Promise<T>): Promise<T> {
+    const p = tail.then(run, run);
+    tail = p.catch(() => {});
+    return p;
+  };
+}
+
+// ---- migrations ----
+
+// `set` values are already encoded
+type Migration = (keys: readonly string[]) => Promise<{ set: [string, string][]; remove: string[] }>;
+
+// Keys from before the schema version existed
+const V1 = {
+  pos: "gallery_progress_global_pos_v1",
+  queue: "gallery_progress_queue_v1",
+  after: "gallery_progress_after_cursor_v1",
+  total: "gallery_total_photos_cached_v1",
+  totalTs: "gallery_total_photos_cached_ts_v1",
+  trashUris: "gallery_trash_uris_v1",
+  trash: "gallery_trash_entries_v2",
+  keep: "gallery_keep_entries_v1",
+};
+
+function scopesOf(keys: readonly string[], base: string): string[] {
+  return keys.filter((k) => k === base || k.startsWith(`${base}:`)).map((k) => k.slice(base.length + 1));
+}
+
+/**
+ * v1 -> v2: position, queue and cursor become one snapshot per scope; total and its
+ * timestamp one document; trash and keep move into envelopes. Entries are copied as
+ * they are; each store drops what it can't parse on read.
+ */
+const toV2: Migration = async (keys) => {
+  const set: [string, string][] = [];
+  const remove: string[] = [];
+  const unreadable = new Map<string, string>();
+  const get = async (key: string): Promise<unknown> => {
+    remove.push(key);
+    const raw = await AsyncStorage.getItem(key);
+    if (raw === null) return undefined;
+    try {
+      return JSON.parse(raw);
+    } catch {
+      unreadable.set(key, raw);
+      return undefined;
+    }
+  };
+  const put = (key: string, data: unknown) => set.push([key, encodeDoc(data)]);
+
+  for (const scope of scopesOf(keys, V1.pos)) {
+    const pos = Number(await get(withSuffix(V1.pos, scope)));
+    const queue = await get(withSuffix(V1.queue, scope));
+    const after = await AsyncStorage.getItem(withSuffix(V1.after, scope));
+    remove.push(withSuffix(V1.after, scope));
+    put(withSuffix(KEYS.session, scope), {
+      pos: Number.isInteger(pos) && pos >= 0 ? pos : 0,
+      queue: Array.isArray(queue) ? queue : [],
+      after: after || null,
+    });
+  }
+
+  for (const scope of scopesOf(keys, V1.total)) {
+    const total = Number(await get(withSuffix(V1.total, scope)));
+    const ts = Number(await get(withSuffix(V1.totalTs, scope)));
+    if (total > 0) put(withSuffix(KEYS.total, scope), { total, ts: Number.isFinite(ts) ? ts : 0 });
+  }
+
+  const trashDoc = (await get(V1.trash)) as { entries?: unknown } | undefined;
+  const trashUris = await get(V1.trashUris);
+  if (Array.isArray(trashDoc?.entries)) {
+    put(KEYS.trash, trashDoc.entries);
+  } else if (Array.isArray(trashUris)) {
+    // We don't know when these were trashed; stamp them with the migration time.
+    const now = Date.now();
+    const uris = [...new Set(trashUris.filter((u) => typeof u === "string" && u.length > 0))];
+    put(KEYS.trash, uris.map((uri) => ({ uri, trashedAt: now })));
+  } else if (unreadable.has(V1.trash) || unreadable.has(V1.trashUris)) {
+    // Carry the damage over as-is; the store's first read detects it and rebuilds.
+    set.push([KEYS.trash, unreadable.get(V1.trash) ?? unreadable.get(V1.trashUris)!]);
+  }
+
+  const keep = await get(V1.keep);
+  if (Array.isArray(keep)) put(KEYS.keep, keep);
+  else if (unreadable.has(V1.keep)) set.push([KEYS.keep, unreadable.get(V1.keep)!]);
+
+  return { set, remove: remove.filter((k) => keys.includes(k)) };
+};
+
+// The journal before it moved into envelopes
+const V2_JOURNAL = "gallery_action_journal_v1";
+
+/** v2 -> v3: the journal's meta and segments move into envelopes, under new keys. */
+const toV3: Migration = async (keys) => {
+  const set: [string, string][] = [];
+  const remove = keys.filter((k) => k.startsWith(`${V2_JOURNAL}:`));
+  for (const key of remove) {
+    const raw = await AsyncStorage.getItem(key);
+    if (raw === null) continue;
+    const target = `${KEYS.journal}${key.slice(V2_JOURNAL.length)}`;
+    try {
+      set.push([target, encodeDoc(JSON.parse(raw))]);
+    } catch {
+      // Carry the damage over as-is; the journal's first read sets it aside.
+      set.push([target, raw]);
+    }
+  }
+  return { set, remove };
+};
+
+// MIGRATIONS[n] upgrades schema n to n + 1. Installs without a version are schema 1.
+const MIGRATIONS: Record<number, Migration> = { 1: toV2, 2: toV3 };
+
+let migrated: Promise<void> | null = null;
+
+async function migrate() {
+  const stored = Number(await AsyncStorage.getItem(SCHEMA_KEY));
+  let version = Number.isInteger(stored) && stored > 0 ? stored : 1;
+
+  while (version < SCHEMA_VERSION) {
+    const { set, remove } = await MIGRATIONS[version](await AsyncStorage.getAllKeys());
+    version++;
+    // The new documents and the version bump land together; old keys go afterwards,
+    // so an interrupted migration leaves garbage at worst, never a half-moved state.
+    await AsyncStorage.multiSet([...set, [SCHEMA_KEY, String(version)]]);
+    if (remove.length > 0) await AsyncStorage.multiRemove(remove);
+  }
+}
+
+/** Brings stored data up to SCHEMA_VERSION; runs once per app start. */
+export function ensureSchema(): Promise<void> {
+  if (!migrated) {
+    migrated = migrate().catch((e) => {
+      migrated = null; // try again on the next read
+      throw e;
+    });
+  }
+  return migrated;
+}
@@ -0,0 +1,91 @@
+// swipeActions.ts
+//
+// Everything the swipe card does, reachable without a gesture: screen reader
+// actions, on-screen buttons and hardware keyboard shortcuts all resolve to one
+// of these and share the spoken description of the result.
+import { Platform } from "react-native";
+import type { MediaAsset } from "./mediaAsset";
+import type { Settings } from "./settings";
+
+export type SwipeAction = "trash" | "skip" | "keep" | "undo" | "openTrash" | "info";
+
+export const SWIPE_ACTION_LABEL: Record<SwipeAction, string> = {
+  trash: "Trash",
+  skip: "Skip",
+  keep: "Keep",
+  undo: "Undo",
+  openTrash: "Open trash",
+  info: "Photo info",
+};
+
+// For `accessibilityActions` on the card, in the order screen readers list them.
+export const CARD_ACCESSIBILITY_ACTIONS = (["trash", "skip", "keep", "undo", "info", "openTrash"] as const).map((name) => ({
+  name,
+  label: SWIPE_ACTION_LABEL[name],
+}));
+
+const LETTER_KEYS: Record<string, SwipeAction> = {
+  t: "trash",
+  s: "skip",
+  k: "keep",
+  u: "undo",
+  o: "openTrash",
+  i: "info",
+};
+
+// Android KEYCODE_DPAD_* / iOS UIKeyboardHIDUsageKeyboard*Arrow
+const ARROW_KEYS: Record<number, "right" | "left" | "up"> =
+  Platform.OS === "ios" ? { 79: "right", 80: "left", 82: "up" } : { 22: "right", 21: "left", 19: "up" };
+
+/** What a swipe (or arrow key) in each direction does, given which side trashes. */
+export function directionAction(direction: "right" | "left" | "up", trashDirection: Settings["trashDirection"]) {
+  if (direction === "up") return "keep";
+  return direction === trashDirection ? "trash" : "skip";
+}
+
+/** Arrows follow the swipe directions; letters are the action's initial (T, S, K, U, O, I). */
+export function actionForKey(
+  key: { keyCode: number; unicodeChar?: string; hasNoModifiers?: boolean },
+  trashDirection: Settings["trashDirection"] = "right"
+): SwipeAction | null {
+  const arrow = ARROW_KEYS[key.keyCode];
+  if (arrow) return directionAction(arrow, trashDirection);
+  // Leave Ctrl/Alt/Cmd combinations to the system
+  if (key.hasNoModifiers === false) return null;
+  return LETTER_KEYS[key.unicodeChar?.toLowerCase() ?? ""] ?? null;
+}
+
+// Decisions on the card; the other actions don't move the session
+type Decision = Exclude<SwipeAction, "openTrash" | "info">;
+
+const OUTCOME: Record<Decision, string> = {
+  trash: "Moved to trash.",
+  skip: "Skipped.",
+  keep: "Kept.",
+  undo: "Undone.",
+};
+
+/** "Swipe right = trash • Swipe left = skip • Swipe up = keep", with the configured sides. */
+export function swipeHint(trashDirection: Settings["trashDirection"]): string {
+  const skipDirection = trashDirection === "right" ? "left" : "right";
+  return `Swipe ${trashDirection} = trash • Swipe ${skipDirection} = skip • Swipe up = keep`;
+}
+
+/** What the card is, for its accessibility label: "Photo 12 of 340, IMG_0042.jpg, taken 3 March 2024". */
+export function describeCard(asset: MediaAsset, pos: number, total: number | null): string {
+  const parts = [`${asset.kind === "video" ? "Video" : "Photo"} ${pos + 1} of ${total ?? "unknown"}`];
+  if (asset.filename) parts.push(asset.filename);
+  if (asset.capturedAt) parts.push(`taken ${new Date(asset.capturedAt).toLocaleDateString()}`);
+  return parts.join(", ");
+}
+
+/** Spoken after an action, e.g. "Moved to trash. Photo 13 of 340." */
+export function describeOutcome(
+  action: Decision,
+  next: MediaAsset | null,
+  pos: number,
+  total: number | null
+): string {
+  const where = next ? `${next.kind === "video" ? "Video" : "Photo"} ${pos + 1} of ${total ?? "unknown"}.` : "No more items.";
+  return `${OUTCOME[action]} ${where}`;
+}
@@ -0,0 +1,122 @@
+// trashDeletion.ts
+//
+// Permanent deletion in bounded chunks. Each chunk may bring up the system
+// confirmation; declining it stops the run. Only items confirmed gone from the
+// library leave the trash, whatever the native call reported.
+import { CameraRoll } from "@react-native-camera-roll/camera-roll";
+import { findMissingUris } from "./assetExistence";
+import { entryAsset, removeManyFromTrash, TrashEntry } from "./trashStore";
+import { appendJournalBatch } from "./actionJournal";
+import { markTotalsStale } from "./session/asyncSessionStorage";
+
+const DEFAULT_CHUNK_SIZE = 100;
+
+export type DeleteFailure = { uri: string; reason: string };
+
+export type DeleteResult = {
+  deleted: string[];
+  failed: DeleteFailure[];
+  // Not deleted because the user declined the system prompt (includes chunks never asked about)
+  cancelled: string[];
+};
+
+export type DeleteOptions = {
+  chunkSize?: number;
+  onProgress?: (done: number, total: number) => void;
+};
+
+export type DeleteDeps = {
+  deletePhotos(uris: string[]): Promise<unknown>;
+  findMissing(uris: string[]): Promise<Set<string>>;
+};
+
+const NATIVE: DeleteDeps = {
+  deletePhotos: (uris) => CameraRoll.deletePhotos(uris),
+  findMissing: findMissingUris,
+};
+
+// Photos (or, before iOS 14, Cocoa) reports a declined prompt as code 3072 in its domain
+const IOS_DOMAINS = new Set(["PHPhotosErrorDomain", "NSCocoaErrorDomain"]);
+const IOS_USER_CANCELLED = "3072";
+
+/**
+ * The system "allow deletion?" prompt was declined, as opposed to a real failure.
+ * Android 11+ rejects with this message when the delete request isn't approved. On
+ * iOS camera-roll rejects every failure with the string code "Couldn't delete" and
+ * the bridge drops the numeric one, so only an underlying error can still say so;
+ * without one the error is reported as a failure rather than guessed to be a cancel.
+ */
+export function isUserCancel(e: any): boolean {
+  if (e?.message === "Deletion was not completed") return true;
+  return IOS_DOMAINS.has(e?.domain) && e?.userInfo?.NSUnderlyingError?.code === IOS_USER_CANCELLED;
+}
+
+export async function deleteInChunks(
+  uris: string[],
+  opts: DeleteOptions = {},
+  deps: DeleteDeps = NATIVE
+): Promise<DeleteResult> {
+  const chunkSize = opts.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const reported = new Set<string>(); // native call said these went
+  const errors = new Map<string, string>();
+  const cancelled: string[] = [];
+
+  let done = 0;
+  opts.onProgress?.(0, uris.length);
+
+  for (let i = 0; i < uris.length; i += chunkSize) {
+    const chunk = uris.slice(i, i + chunkSize);
+    try {
+      await deps.deletePhotos(chunk);
+      chunk.forEach((u) => reported.add(u));
+    } catch (e: any) {
+      if (isUserCancel(e)) {
+        cancelled.push(...uris.slice(i));
+        break;
+      }
+      const reason = e?.message ?? "Unknown error";
+      chunk.forEach((u) => errors.set(u, reason));
+    }
+    done += chunk.length;
+    opts.onProgress?.(done, uris.length);
+  }
+
+  // Trust the library over the native result: partial deletes happen, and so do
+  // "successful" calls that left something behind.
+  let gone: Set<string>;
+  try {
+    gone = await deps.findMissing(uris);
+  } catch {
+    gone = reported;
+  }
+
+  const skipped = new Set(cancelled);
+  const deleted = uris.filter((u) => gone.has(u));
+  const failed = uris
+    .filter((u) => !gone.has(u) && !skipped.has(u))
+    .map((uri) => ({ uri, reason: errors.get(uri) ?? "Still in the library after deleting" }));
+
+  return { deleted, failed, cancelled: cancelled.filter((u) => !gone.has(u)) };
+}
+
+/** Deletes trash entries from the device, then drops (and journals) the ones that are gone. */
+export async function deleteTrashEntries(entries: TrashEntry[], opts: DeleteOptions = {}): Promise<DeleteResult> {
+  const result = await deleteInChunks(entries.map((e) => e.uri), opts);
+  if (result.deleted.length > 0) {
+    const gone = new Set(result.deleted);
+    await removeManyFromTrash(result.deleted);
+    await appendJournalBatch(
+      entries.filter((e) => gone.has(e.uri)).map((e) => ({ kind: "delete" as const, asset: entryAsset(e) }))
+    );
+    await markTotalsStale();
+  }
+  return result;
+}
+
+/** Drops (and journals) trash entries that were deleted outside the app; there's nothing left to delete. */
+export async function forgetGoneEntries(entries: TrashEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  await removeManyFromTrash(entries.map((e) => e.uri));
+  await appendJournalBatch(entries.map((e) => ({ kind: "gone" as const, asset: entryAsset(e) })));
+  await markTotalsStale();
+}
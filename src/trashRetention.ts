@@ -0,0 +1,43 @@
+// trashRetention.ts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { TrashEntry } from "./trashStore";
+
+const KEY = "gallery_trash_retention_days_v1";
+
+// null = keep forever
+export type RetentionDays = 7 | 30 | 90 | null;
+
+export const RETENTION_OPTIONS: RetentionDays[] = [7, 30, 90, null];
+export const DEFAULT_RETENTION: RetentionDays = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function retentionLabel(days: RetentionDays): string {
+  return days === null ? "Never" : `${days} days`;
+}
+
+export async function getRetentionDays(): Promise<RetentionDays> {
+  const raw = await AsyncStorage.getItem(KEY);
+  if (raw === null) return DEFAULT_RETENTION;
+  if (raw === "never") return null;
+  const n = Number(raw);
+  return RETENTION_OPTIONS.includes(n as RetentionDays) ? (n as RetentionDays) : DEFAULT_RETENTION;
+}
+
+export async function setRetentionDays(days: RetentionDays) {
+  await AsyncStorage.setItem(KEY, days === null ? "never" : String(days));
+}
+
+/**
+ * Whole days until the entry is due for purging (0 = due now).
+ * null when nothing expires, or we don't know when the entry was trashed.
+ */
+export function daysLeft(entry: TrashEntry, days: RetentionDays, now = Date.now()): number | null {
+  if (days === null || entry.trashedAt <= 0) return null;
+  const expiresAt = entry.trashedAt + days * DAY_MS;
+  return Math.max(0, Math.ceil((expiresAt - now) / DAY_MS));
+}
+
+export function findExpired(entries: TrashEntry[], days: RetentionDays, now = Date.now()): TrashEntry[] {
+  return entries.filter((e) => daysLeft(e, days, now) === 0);
+}
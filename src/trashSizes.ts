@@ -0,0 +1,37 @@
+// trashSizes.ts
+//
+// Entries trashed before we asked CameraRoll for sizes (and all v1 migrations) have no
+// fileSize. Walk the library with the extra includes until every missing one is found.
+import { assetFromNode, MediaAsset } from "./mediaAsset";
+import { walkLibrary } from "./mediaLibrary";
+import { fillTrashMetadata, TrashEntry } from "./trashStore";
+
+const PAGE_SIZE = 1000;
+
+export function missingSizes(entries: TrashEntry[]): TrashEntry[] {
+  return entries.filter((e) => e.fileSize === null);
+}
+
+/** Returns how many entries got a size. */
+export async function fetchMissingSizes(entries: TrashEntry[]): Promise<number> {
+  const wanted = new Set(missingSizes(entries).map((e) => e.uri));
+  if (wanted.size === 0) return 0;
+
+  const found: MediaAsset[] = [];
+  await walkLibrary(
+    PAGE_SIZE,
+    ({ edges }) => {
+      for (const edge of edges) {
+        const uri = edge.node.image?.uri;
+        if (!uri || !wanted.has(uri)) continue;
+        wanted.delete(uri);
+        found.push(assetFromNode(edge.node));
+      }
+      return wanted.size > 0;
+    },
+    { assetType: "All", include: ["fileSize", "filename", "imageSize"] }
+  );
+
+  if (found.length > 0) await fillTrashMetadata(found);
+  return found.filter((a) => typeof a.fileSize === "number").length;
+}
@@ -1,36 +1,156 @@
 // trashStore.ts
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { MediaAsset, MediaKind } from "./mediaAsset";
+import { createLock, KEYS, readDoc, writeDocs } from "./storage";
+import { liveDecisions, readJournal } from "./actionJournal";
 
-const KEY = "gallery_trash_uris_v1";
+export type TrashEntry = {
+  uri: string;
+  id: string | null; // CameraRoll asset id
+  kind: MediaKind;
+  duration: number | null; // seconds, videos only
+  trashedAt: number; // ms timestamp
+  capturedAt: number | null; // ms timestamp
+  filename: string | null;
+  fileSize: number | null; // bytes
+  width: number | null;
+  height: number | null;
+  albums: string[] | null; // so it can be matched to an album's session later
+};
+
+function toEntry(asset: MediaAsset, trashedAt: number): TrashEntry {
+  return {
+    uri: asset.uri,
+    id: asset.id ?? null,
+    kind: asset.kind ?? "photo",
+    duration: asset.duration ?? null,
+    trashedAt,
+    capturedAt: asset.capturedAt ?? null,
+    filename: asset.filename ?? null,
+    fileSize: asset.fileSize ?? null,
+    width: asset.width ?? null,
+    height: asset.height ?? null,
+    albums: asset.albums ?? null,
+  };
+}
+
+/** Back to the plain asset shape, e.g. for journaling what happened to it. */
+export function entryAsset(e: TrashEntry): MediaAsset {
+  return {
+    uri: e.uri,
+    id: e.id ?? undefined,
+    kind: e.kind,
+    duration: e.duration ?? undefined,
+    capturedAt: e.capturedAt ?? undefined,
+    filename: e.filename ?? undefined,
+    fileSize: e.fileSize ?? undefined,
+    width: e.width ?? undefined,
+    height: e.height ?? undefined,
+    albums: e.albums ?? undefined,
+  };
+}
+
+export function parseTrashEntry(x: unknown): TrashEntry | null {
+  if (!x || typeof x !== "object") return null;
+  const o = x as Record<string, unknown>;
+  if (typeof o.uri !== "string" || o.uri.length === 0) return null;
+  const numOrNull = (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? v : null);
+  return {
+    uri: o.uri,
+    id: typeof o.id === "string" ? o.id : null,
+    kind: o.kind === "video" ? "video" : "photo",
+    duration: numOrNull(o.duration),
+    trashedAt: numOrNull(o.trashedAt) ?? 0,
+    capturedAt: numOrNull(o.capturedAt),
+    filename: typeof o.filename === "string" ? o.filename : null,
+    fileSize: numOrNull(o.fileSize),
+    width: numOrNull(o.width),
+    height: numOrNull(o.height),
+    albums: Array.isArray(o.albums) ? o.albums.filter((g): g is string => typeof g === "string") : null,
+  };
+}
+
+function parseTrashList(data: unknown): TrashEntry[] | null {
+  if (!Array.isArray(data)) return null;
+  return data.map(parseTrashEntry).filter((e): e is TrashEntry => e !== null);
+}
+
+/** The journal knows everything that was trashed and what happened to it since. */
+async function rebuildFromJournal(): Promise<TrashEntry[]> {
+  const { trash } = liveDecisions(await readJournal());
+  const entries = trash.map((e) => toEntry(e.asset, e.at));
+  await writeDocs([[KEYS.trash, entries]]);
+  return entries;
+}
+
+async function readEntries(): Promise<TrashEntry[]> {
+  const res = await readDoc(KEYS.trash, parseTrashList);
+  if (res.status === "ok") return res.value;
+  if (res.status === "missing") return [];
+  return rebuildFromJournal();
+}
+
+// Every change is read-modify-write of the whole list; run them one at a time.
+const locked = createLock();
+
+function update(change: (entries: TrashEntry[]) => TrashEntry[] | null) {
+  return locked(async () => {
+    const next = change(await readEntries());
+    if (next) await writeDocs([[KEYS.trash, next]]);
+  });
+}
+
+export function getTrashEntries(): Promise<TrashEntry[]> {
+  return locked(readEntries);
+}
+
+export function setTrashEntries(entries: TrashEntry[]) {
+  return update(() => entries);
+}
 
 export async function getTrashSet(): Promise<Set<string>> {
-  const raw = await AsyncStorage.getItem(KEY);
-  if (!raw) return new Set();
-  try {
-    const arr = JSON.parse(raw);
-    if (Array.isArray(arr)) return new Set(arr.filter((x) => typeof x === "string"));
-    return new Set();
-  } catch {
-    return new Set();
-  }
+  const entries = await getTrashEntries();
+  return new Set(entries.map((e) => e.uri));
 }
 
-export async function setTrashSet(next: Set<string>) {
-  await AsyncStorage.setItem(KEY, JSON.stringify([...next]));
+/** Accepts the asset metadata we already have from CameraRoll, or just a URI. */
+export function addToTrash(asset: MediaAsset | string) {
+  const a = typeof asset === "string" ? { uri: asset } : asset;
+  return update((entries) => (entries.some((e) => e.uri === a.uri) ? null : [...entries, toEntry(a, Date.now())]));
 }
 
-export async function addToTrash(uri: string) {
-  const s = await getTrashSet();
-  s.add(uri);
-  await setTrashSet(s);
+export function removeFromTrash(uri: string) {
+  return update((entries) => entries.filter((e) => e.uri !== uri));
 }
 
-export async function removeFromTrash(uri: string) {
-  const s = await getTrashSet();
-  s.delete(uri);
-  await setTrashSet(s);
+export function removeManyFromTrash(uris: string[]) {
+  const drop = new Set(uris);
+  return update((entries) => entries.filter((e) => !drop.has(e.uri)));
 }
 
-export async function clearTrash() {
-  await AsyncStorage.removeItem(KEY);
-}
\ No newline at end of file
+export function clearTrash() {
+  return update(() => []);
+}
+
+/**
+ * Fill in metadata we didn't have when an item was trashed. Only empty fields are
+ * touched, and entries are matched by URI against the current list.
+ */
+export function fillTrashMetadata(assets: MediaAsset[]) {
+  const byUri = new Map(assets.map((a) => [a.uri, a]));
+  return update((entries) =>
+    entries.map((e) => {
+      const a = byUri.get(e.uri);
+      if (!a) return e;
+      return {
+        ...e,
+        id: e.id ?? a.id ?? null,
+        capturedAt: e.capturedAt ?? a.capturedAt ?? null,
+        filename: e.filename ?? a.filename ?? null,
+        fileSize: e.fileSize ?? a.fileSize ?? null,
+        width: e.width ?? a.width ?? null,
+        height: e.height ?? a.height ?? null,
+        albums: e.albums ?? a.albums ?? null,
+      };
+    })
+  );
+}